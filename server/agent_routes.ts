@@ -0,0 +1,207 @@
+/**
+ * 智能体路由注册
+ * 为注册表中的每个智能体挂载：
+ * - POST /api/agents/<name>/invoke：等待执行完成，返回最终状态
+ * - POST /api/agents/<name>/stream：Server-Sent Events，逐节点推送进度与模型 token
+ * - GET  /api/agents/<name>/threads：列出该智能体的所有线程
+ * - GET  /api/agents/<name>/threads/:threadId：线程当前状态
+ * - GET  /api/agents/<name>/threads/:threadId/history：线程的检查点历史
+ * - POST /api/agents/<name>/threads/:threadId/resume：从最后一个检查点继续执行
+ *
+ * invoke / stream 支持查询参数 ?threadId=xxx，不传则新建线程
+ */
+
+import { randomUUID } from "crypto";
+import type { Express, Request, Response } from "express";
+import { isAIMessageChunk } from "@langchain/core/messages";
+import { AGENTS, serializeState, validateAgentInput, type AgentDefinition } from "../src/agent_registry";
+import { getCheckpointer, threadConfig } from "../src/checkpointer";
+
+const sendError = (res: Response, agent: AgentDefinition, error: unknown) => {
+  console.error(`[API] ${agent.name} 错误:`, error);
+  res.status(500).json({
+    error: "智能体执行失败",
+    message: error instanceof Error ? error.message : String(error),
+  });
+};
+
+const requestThreadId = (req: Request) =>
+  typeof req.query.threadId === "string" && req.query.threadId ? req.query.threadId : randomUUID();
+
+const createInvokeHandler = (agent: AgentDefinition) => async (req: Request, res: Response) => {
+  const validation = validateAgentInput(agent, req.body);
+  if (!validation.ok) {
+    return res.status(400).json({ error: "参数校验失败", details: validation.errors });
+  }
+
+  try {
+    const threadId = requestThreadId(req);
+    console.log(`[API] 收到 ${agent.name} 智能体请求，线程 ${threadId}`);
+    const result = await agent.app.invoke(validation.input, threadConfig(threadId));
+    // next 非空表示图在中断处暂停（如等待人工审核），可稍后恢复
+    const { next } = await agent.app.getState(threadConfig(threadId));
+    res.json({ success: true, threadId, next, data: serializeState(result) });
+  } catch (error) {
+    sendError(res, agent, error);
+  }
+};
+
+/**
+ * 写出一条 SSE 事件
+ */
+const writeEvent = (res: Response, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * 流式执行：基于 app.stream() 同时订阅三种模式
+ * - debug：task / task_result 事件，对应节点开始 / 结束（含状态增量）
+ * - messages：模型输出的 token 片段，按所在节点标注
+ * - values：每步之后的完整状态，结束时作为最终结果推送
+ *
+ * SSE 事件：thread、node_start、node_end、token、done、error
+ */
+const createStreamHandler = (agent: AgentDefinition) => async (req: Request, res: Response) => {
+  const validation = validateAgentInput(agent, req.body);
+  if (!validation.ok) {
+    return res.status(400).json({ error: "参数校验失败", details: validation.errors });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  // 客户端断开时中止图的执行，避免继续消耗 token
+  const controller = new AbortController();
+  res.on("close", () => controller.abort());
+
+  try {
+    const threadId = requestThreadId(req);
+    console.log(`[API] 收到 ${agent.name} 智能体流式请求，线程 ${threadId}`);
+    writeEvent(res, "thread", { threadId });
+    const stream = await agent.app.stream(validation.input, {
+      ...threadConfig(threadId),
+      streamMode: ["debug", "messages", "values"],
+      signal: controller.signal,
+    });
+
+    let finalState: Record<string, unknown> = {};
+    for await (const [mode, chunk] of stream as AsyncIterable<[string, any]>) {
+      if (mode === "debug" && chunk.type === "task") {
+        writeEvent(res, "node_start", { node: chunk.payload.name, step: chunk.step });
+      } else if (mode === "debug" && chunk.type === "task_result") {
+        const update = Object.fromEntries(chunk.payload.result as [string, unknown][]);
+        writeEvent(res, "node_end", { node: chunk.payload.name, step: chunk.step, update: serializeState(update) });
+      } else if (mode === "messages") {
+        const [message, metadata] = chunk;
+        if (isAIMessageChunk(message) && typeof message.content === "string" && message.content) {
+          writeEvent(res, "token", { node: metadata?.langgraph_node, content: message.content });
+        }
+      } else if (mode === "values") {
+        finalState = chunk;
+      }
+    }
+    writeEvent(res, "done", serializeState(finalState));
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error(`[API] ${agent.name} 流式错误:`, error);
+      writeEvent(res, "error", { message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    res.end();
+  }
+};
+
+/**
+ * 读取线程当前快照；线程不存在时返回 404
+ */
+const loadThreadSnapshot = async (agent: AgentDefinition, req: Request, res: Response) => {
+  const snapshot = await agent.app.getState(threadConfig(req.params.threadId));
+  if (!snapshot.createdAt) {
+    res.status(404).json({ error: `线程不存在: ${req.params.threadId}` });
+    return undefined;
+  }
+  return snapshot;
+};
+
+const registerThreadRoutes = (server: Express, agent: AgentDefinition) => {
+  const base = `/api/agents/${agent.name}/threads`;
+
+  server.get(base, (req: Request, res: Response) => {
+    res.json({ threads: getCheckpointer(agent.name).listThreads() });
+  });
+
+  server.get(`${base}/:threadId`, async (req: Request, res: Response) => {
+    try {
+      const snapshot = await loadThreadSnapshot(agent, req, res);
+      if (!snapshot) return;
+      res.json({
+        threadId: req.params.threadId,
+        next: snapshot.next,
+        createdAt: snapshot.createdAt,
+        values: serializeState(snapshot.values),
+      });
+    } catch (error) {
+      sendError(res, agent, error);
+    }
+  });
+
+  server.get(`${base}/:threadId/history`, async (req: Request, res: Response) => {
+    try {
+      const history = [];
+      for await (const snapshot of agent.app.getStateHistory(threadConfig(req.params.threadId))) {
+        history.push({
+          checkpointId: snapshot.config.configurable?.checkpoint_id,
+          step: snapshot.metadata?.step,
+          source: snapshot.metadata?.source,
+          next: snapshot.next,
+          createdAt: snapshot.createdAt,
+          values: serializeState(snapshot.values),
+        });
+      }
+      if (history.length === 0) return res.status(404).json({ error: `线程不存在: ${req.params.threadId}` });
+      res.json({ threadId: req.params.threadId, history });
+    } catch (error) {
+      sendError(res, agent, error);
+    }
+  });
+
+  server.post(`${base}/:threadId/resume`, async (req: Request, res: Response) => {
+    try {
+      const snapshot = await loadThreadSnapshot(agent, req, res);
+      if (!snapshot) return;
+      if (snapshot.next.length === 0) {
+        return res.status(409).json({ error: "线程已执行完毕，没有可恢复的节点" });
+      }
+      console.log(`[API] 恢复 ${agent.name} 线程 ${req.params.threadId}，待执行: ${snapshot.next.join(", ")}`);
+      const result = await agent.app.invoke(null, threadConfig(req.params.threadId));
+      res.json({ success: true, threadId: req.params.threadId, data: serializeState(result) });
+    } catch (error) {
+      sendError(res, agent, error);
+    }
+  });
+};
+
+export const registerAgentRoutes = (server: Express) => {
+  // 智能体列表：名称、描述与输入字段
+  server.get("/api/agents", (req: Request, res: Response) => {
+    res.json({
+      agents: AGENTS.map(({ name, description, input }) => ({
+        name,
+        description,
+        input,
+        endpoint: `/api/agents/${name}/invoke`,
+        streamEndpoint: `/api/agents/${name}/stream`,
+        threadsEndpoint: `/api/agents/${name}/threads`,
+      })),
+    });
+  });
+
+  for (const agent of AGENTS) {
+    server.post(`/api/agents/${agent.name}/invoke`, createInvokeHandler(agent));
+    server.post(`/api/agents/${agent.name}/stream`, createStreamHandler(agent));
+    registerThreadRoutes(server, agent);
+  }
+};
@@ -0,0 +1,52 @@
+/**
+ * 经验库路由（学习智能体）
+ * 学习智能体的每次执行对应一个线程（POST /api/agents/learning/invoke 返回 threadId），据此提交反馈：
+ * - GET  /api/experiences：列出经验；带 ?includeRetired=true 时包含已淘汰的经验
+ * - POST /api/experiences/feedback：提交 { threadId, helpful }，调整该次执行召回的经验得分，每个线程只能评价一次
+ */
+
+import type { Express, Request, Response } from "express";
+import { app as learningApp, recordFeedback } from "../src/learning_agent";
+import { getExperienceStore } from "../src/experience_store";
+import { threadConfig } from "../src/checkpointer";
+
+const sendError = (res: Response, error: unknown) => {
+  console.error("[API] 经验库接口错误:", error);
+  res.status(500).json({
+    error: "经验库处理失败",
+    message: error instanceof Error ? error.message : String(error),
+  });
+};
+
+export const registerExperienceRoutes = (server: Express) => {
+  server.get("/api/experiences", (req: Request, res: Response) => {
+    try {
+      res.json({ experiences: getExperienceStore().list(req.query.includeRetired === "true") });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  server.post("/api/experiences/feedback", async (req: Request, res: Response) => {
+    const { threadId, helpful } = req.body ?? {};
+    if (typeof threadId !== "string" || !threadId) {
+      return res.status(400).json({ error: "缺少必需参数: threadId (string)" });
+    }
+    if (typeof helpful !== "boolean") {
+      return res.status(400).json({ error: "缺少必需参数: helpful (boolean)" });
+    }
+
+    try {
+      const snapshot = await learningApp.getState(threadConfig(threadId));
+      if (!snapshot.createdAt) return res.status(404).json({ error: `线程不存在: ${threadId}` });
+      if (snapshot.next.length > 0) return res.status(409).json({ error: "该线程尚未执行完成，不能评价" });
+
+      // 重复评价由 recordFeedback 在经验库的文件锁内判断，并发提交也只有一次生效
+      const { recorded, experiences } = await recordFeedback(threadId, helpful);
+      if (!recorded) return res.status(409).json({ error: "该线程已经评价过" });
+      res.json({ success: true, threadId, helpful, experiences });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+};
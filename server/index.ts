@@ -1,14 +1,34 @@
 /**
  * 智能体服务器
  * 提供 HTTP API 接口来调用各个智能体
+ *
+ * 访问控制：默认只监听本机（HOST=127.0.0.1）；设置 SERVER_TOKEN 后，除 /health 外的请求都需要携带
+ * Authorization: Bearer <SERVER_TOKEN>。监听其他地址（如 HOST=0.0.0.0）时必须设置 SERVER_TOKEN，否则拒绝启动。
  */
 
 import "dotenv/config";
-import express, { Request, Response } from "express";
+import { timingSafeEqual } from "crypto";
+import express, { NextFunction, Request, Response } from "express";
 import { app as parallelApp } from "../src/parallel_agent";
+import { closeExecutorTools } from "../src/planning_agent";
+import { threadConfig } from "../src/checkpointer";
+import { registerAgentRoutes } from "./agent_routes";
+import { registerReviewRoutes } from "./review_routes";
+import { registerMcpRoutes } from "./mcp_http_routes";
+import { registerRagChatRoutes } from "./rag_chat_routes";
+import { registerMemoryRoutes } from "./memory_routes";
+import { registerExperienceRoutes } from "./experience_routes";
 
 const server = express();
-const PORT = process.env.PORT || 3000;
+const PORT = Number(process.env.PORT || 3000);
+const HOST = process.env.HOST || "127.0.0.1";
+const TOKEN = process.env.SERVER_TOKEN;
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+if (!LOOPBACK_HOSTS.includes(HOST) && !TOKEN) {
+  console.error(`[Server] 监听 ${HOST} 时其他主机也能访问，请设置 SERVER_TOKEN 后再启动`);
+  process.exit(1);
+}
 
 // 中间件：解析 JSON 请求体
 server.use(express.json());
@@ -18,6 +38,17 @@ server.get("/health", (req: Request, res: Response) => {
   res.json({ status: "ok", message: "智能体服务器运行中" });
 });
 
+// 中间件：设置了 SERVER_TOKEN 时校验 Bearer token（健康检查除外）
+const isValidToken = (header: string | undefined) => {
+  const expected = Buffer.from(`Bearer ${TOKEN}`);
+  const actual = Buffer.from(header ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+server.use((req: Request, res: Response, next: NextFunction) => {
+  if (!TOKEN || isValidToken(req.header("authorization"))) return next();
+  res.status(401).json({ error: "未授权：需要 Authorization: Bearer <SERVER_TOKEN>" });
+});
+
 // 并行智能体接口示例
 server.post("/api/agents/parallel/start", async (req: Request, res: Response) => {
   try {
@@ -30,7 +61,7 @@ server.post("/api/agents/parallel/start", async (req: Request, res: Response) =>
     }
 
     console.log(`[API] 收到并行智能体请求: ${topic}`);
-    const result = await parallelApp.invoke({ topic });
+    const result = await parallelApp.invoke({ topic }, threadConfig());
     
     res.json({
       success: true,
@@ -49,9 +80,42 @@ server.post("/api/agents/parallel/start", async (req: Request, res: Response) =>
   }
 });
 
+// 通用智能体接口：每个智能体一个 POST /api/agents/<name>/invoke
+registerAgentRoutes(server);
+
+// 人工审核接口：查看待审核草稿并提交反馈
+registerReviewRoutes(server);
+
+// 知识库对话接口：多轮对话，历史按线程持久化
+registerRagChatRoutes(server);
+
+// 长期记忆接口：查看、编辑、遗忘记忆智能体记住的用户信息
+registerMemoryRoutes(server);
+
+// 经验库接口：查看学习智能体的经验，对执行结果提交反馈
+registerExperienceRoutes(server);
+
+// MCP Streamable HTTP 接口：智能体、资源、提示词以 MCP 协议对外提供
+registerMcpRoutes(server);
+
+// 退出时关闭规划智能体执行步骤时启动的 MCP Server 进程
+const shutdown = async (signal: NodeJS.Signals) => {
+  console.log(`\n[Server] 收到 ${signal}，正在关闭...`);
+  await closeExecutorTools().catch((error) => console.error("[Server] 关闭 MCP 工具失败:", error));
+  process.exit(0);
+};
+process.once("SIGINT", shutdown);
+process.once("SIGTERM", shutdown);
+
 // 启动服务器
-server.listen(PORT, () => {
-  console.log(`🚀 智能体服务器已启动，监听端口 ${PORT}`);
+server.listen(PORT, HOST, () => {
+  console.log(`🚀 智能体服务器已启动，监听 ${HOST}:${PORT}${TOKEN ? "（需要 SERVER_TOKEN）" : "（仅本机可访问）"}`);
   console.log(`📡 健康检查: http://localhost:${PORT}/health`);
   console.log(`📡 并行智能体: POST http://localhost:${PORT}/api/agents/parallel/start`);
+  console.log(`📡 智能体列表: GET http://localhost:${PORT}/api/agents`);
+  console.log(`📡 待审核草稿: GET http://localhost:${PORT}/api/reviews`);
+  console.log(`📡 知识库对话: POST http://localhost:${PORT}/api/rag/chat`);
+  console.log(`📡 长期记忆: GET http://localhost:${PORT}/api/memories/:userId`);
+  console.log(`📡 经验反馈: POST http://localhost:${PORT}/api/experiences/feedback`);
+  console.log(`📡 MCP (Streamable HTTP): http://localhost:${PORT}/mcp`);
 });
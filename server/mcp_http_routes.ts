@@ -0,0 +1,156 @@
+/**
+ * MCP Streamable HTTP 传输
+ * 把 mcp_server.ts 中的协议层挂载到 Express 上，让 MCP 客户端以独立服务的方式访问：
+ * - POST   /mcp：发送一条 JSON-RPC 消息；请求返回 application/json 响应，通知返回 202
+ * - DELETE /mcp：结束会话
+ * - GET    /mcp：本服务器不主动推送消息，返回 405
+ *
+ * 会话：initialize 成功后在响应头 Mcp-Session-Id 中返回会话 ID，之后的请求都必须携带；
+ * 缺少会话 ID 返回 400，会话不存在（已结束或服务重启）返回 404，客户端需要重新 initialize。
+ * 客户端断开时不一定会发送 DELETE：没有执行中请求、空闲超过 MCP_SESSION_IDLE_MS 的会话定期清除；
+ * 会话数达到 MCP_MAX_SESSIONS 时新建会话先淘汰最久未活动的空闲会话，全部在执行中则返回 503。
+ *
+ * 安全：按规范校验 Origin，只接受本机来源（或 MCP_ALLOWED_ORIGINS 中逗号分隔的来源），防止 DNS 重绑定攻击；
+ * 不带 Origin 的非浏览器客户端由服务器的访问控制保护（默认只监听本机，对外监听时需要 SERVER_TOKEN，见 index.ts）。
+ */
+
+import { randomUUID } from "crypto";
+import type { Express, Request, Response } from "express";
+import { createMcpSession, handleMcpMessage, parseErrorResponse, type JsonRpcRequest, type McpSession } from "./mcp_server";
+
+const SESSION_HEADER = "mcp-session-id";
+
+const SESSION_IDLE_MS = Number(process.env.MCP_SESSION_IDLE_MS ?? 30 * 60_000);
+const MAX_SESSIONS = Number(process.env.MCP_MAX_SESSIONS ?? 100);
+const SWEEP_INTERVAL_MS = 60_000;
+
+// lastActive 为最近一次请求开始或结束的时间
+type SessionEntry = { session: McpSession; lastActive: number };
+
+const sessions = new Map<string, SessionEntry>();
+
+const touchSession = (sessionId: string) => {
+  const entry = sessions.get(sessionId);
+  if (entry) entry.lastActive = Date.now();
+};
+
+const closeSession = (sessionId: string, reason: string) => {
+  const entry = sessions.get(sessionId);
+  if (!entry) return;
+  for (const controller of entry.session.inFlight.values()) controller.abort();
+  sessions.delete(sessionId);
+  console.log(`[MCP] ${reason} HTTP 会话 ${sessionId}`);
+};
+
+const isIdle = (entry: SessionEntry) => entry.session.inFlight.size === 0;
+
+/**
+ * 清除空闲超时的会话
+ */
+const sweepSessions = () => {
+  const now = Date.now();
+  for (const [sessionId, entry] of sessions) {
+    if (isIdle(entry) && now - entry.lastActive > SESSION_IDLE_MS) closeSession(sessionId, "清除空闲超时的");
+  }
+};
+
+/**
+ * 为新会话腾出位置：先清除超时会话，仍然满额时淘汰最久未活动的空闲会话
+ * @returns 是否还有空位
+ */
+const reserveSessionSlot = () => {
+  sweepSessions();
+  if (sessions.size < MAX_SESSIONS) return true;
+  const oldest = [...sessions].filter(([, entry]) => isIdle(entry)).sort(([, a], [, b]) => a.lastActive - b.lastActive)[0];
+  if (!oldest) return false;
+  closeSession(oldest[0], "会话数已达上限，淘汰最久未活动的");
+  return true;
+};
+
+const isAllowedOrigin = (origin: string | undefined) => {
+  if (!origin) return true; // 非浏览器客户端不带 Origin，由监听地址和 SERVER_TOKEN 限制
+  const allowed = (process.env.MCP_ALLOWED_ORIGINS ?? "").split(",").map((o) => o.trim()).filter(Boolean);
+  if (allowed.includes(origin)) return true;
+  try {
+    return ["localhost", "127.0.0.1", "[::1]"].includes(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+};
+
+const sendRpcError = (res: Response, status: number, message: string) => {
+  res.status(status).json({ jsonrpc: "2.0", id: null, error: { code: -32000, message } });
+};
+
+const handlePost = async (req: Request, res: Response) => {
+  const message = req.body as JsonRpcRequest;
+  if (!message || typeof message !== "object" || Array.isArray(message)) {
+    return res.status(400).json(parseErrorResponse(new Error("请求体必须是一条 JSON-RPC 消息")));
+  }
+
+  const isInitialize = message.method === "initialize";
+  const sessionId = req.header(SESSION_HEADER);
+  let session: McpSession | undefined;
+
+  if (isInitialize) {
+    if (!reserveSessionSlot()) return sendRpcError(res, 503, `会话数已达上限（${MAX_SESSIONS}），请稍后重试`);
+    session = createMcpSession();
+  } else if (!sessionId) {
+    return sendRpcError(res, 400, `缺少 ${SESSION_HEADER} 请求头，请先 initialize`);
+  } else {
+    session = sessions.get(sessionId)?.session;
+    if (!session) return sendRpcError(res, 404, `会话不存在或已结束：${sessionId}`);
+    touchSession(sessionId);
+  }
+
+  // 通知与客户端发来的响应没有回包
+  if (!("method" in message) || message.id === undefined) {
+    await handleMcpMessage(session, message);
+    return res.status(202).end();
+  }
+
+  // 客户端在请求完成前断开连接时，视同取消（中止仍在执行的智能体）
+  res.on("close", () => {
+    if (!res.writableFinished) session!.inFlight.get(message.id ?? null)?.abort();
+  });
+
+  const response = await handleMcpMessage(session, message);
+  if (sessionId) touchSession(sessionId);
+  if (res.destroyed) return;
+  if (!response) return res.status(202).end();
+
+  if (isInitialize && "result" in response) {
+    const newSessionId = randomUUID();
+    sessions.set(newSessionId, { session, lastActive: Date.now() });
+    res.setHeader("Mcp-Session-Id", newSessionId);
+    console.log(`[MCP] 新建 HTTP 会话 ${newSessionId}`);
+  }
+  res.json(response);
+};
+
+export const registerMcpRoutes = (server: Express, path = "/mcp") => {
+  setInterval(sweepSessions, SWEEP_INTERVAL_MS).unref();
+
+  server.use(path, (req: Request, res: Response, next) => {
+    if (!isAllowedOrigin(req.header("origin"))) return sendRpcError(res, 403, "不允许的 Origin");
+    next();
+  });
+
+  server.post(path, (req: Request, res: Response) => {
+    handlePost(req, res).catch((error) => {
+      console.error("[MCP] HTTP 请求处理失败:", error);
+      if (!res.headersSent) sendRpcError(res, 500, error instanceof Error ? error.message : String(error));
+    });
+  });
+
+  server.delete(path, (req: Request, res: Response) => {
+    const sessionId = req.header(SESSION_HEADER);
+    if (!sessionId || !sessions.has(sessionId)) return sendRpcError(res, 404, `会话不存在或已结束：${sessionId ?? ""}`);
+    closeSession(sessionId, "结束");
+    res.status(204).end();
+  });
+
+  server.get(path, (req: Request, res: Response) => {
+    res.status(405).set("Allow", "POST, DELETE").json({ error: "本服务器不提供服务端推送流，请使用 POST" });
+  });
+};
@@ -0,0 +1,366 @@
+/**
+ * MCP Server 协议层（与传输无关）
+ *
+ * 实现的 MCP 方法：
+ * - initialize
+ * - tools/list
+ * - tools/call：除 math_add、echo 两个演示工具外，src/ 下的每个智能体图都注册为 <name>_agent 工具
+ * - resources/list、resources/read：暴露 assets/ 目录下的本地文件（如 experience_db.json）
+ * - prompts/list、prompts/get：暴露各智能体的系统提示词（见 src/agent_prompts.ts）
+ * - notifications/cancelled：中止仍在执行的智能体工具调用，被取消的请求不再回包
+ *
+ * 传输层只负责收发消息：
+ * - mcp_stdio_server.ts：stdio，一行一个 JSON
+ * - mcp_http_routes.ts：Streamable HTTP，挂载在 Express 上
+ * 每个连接（stdio 进程 / HTTP 会话）对应一个 McpSession，记录执行中的请求以便取消。
+ *
+ * 环境变量：
+ * - MCP_ASSETS_DIR：资源目录（默认项目根目录下的 assets/）
+ *
+ * 说明：
+ * - MCP 基于 JSON-RPC 2.0。
+ * - 为了演示清晰，这里不引入额外依赖，手写一个很小的 router。
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { extname, join, relative, resolve, sep } from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { SYSTEM_PROMPTS, type SystemPromptName } from "../src/agent_prompts";
+import type * as AgentRegistry from "../src/agent_registry";
+import { threadConfig } from "../src/checkpointer";
+
+type JsonRpcId = string | number | null;
+
+type JsonRpcRequest = {
+  jsonrpc: "2.0";
+  id?: JsonRpcId;
+  method: string;
+  params?: unknown;
+};
+
+type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: JsonRpcId; result: unknown }
+  | {
+      jsonrpc: "2.0";
+      id: JsonRpcId;
+      error: { code: number; message: string; data?: unknown };
+    };
+
+type McpSession = {
+  // 执行中的智能体调用：请求 id -> AbortController，用于响应 notifications/cancelled
+  inFlight: Map<JsonRpcId, AbortController>;
+};
+
+const createMcpSession = (): McpSession => ({ inFlight: new Map() });
+
+const resultOf = (id: JsonRpcId, result: unknown): JsonRpcResponse => ({ jsonrpc: "2.0", id, result });
+
+const errorOf = (id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse => ({
+  jsonrpc: "2.0",
+  id,
+  error: { code, message, data },
+});
+
+const PROTOCOL_VERSION = "2025-06-18";
+
+const DEMO_TOOLS = [
+  {
+    name: "math_add",
+    description: "把 a 与 b 相加并返回结果",
+    inputSchema: {
+      type: "object",
+      properties: {
+        a: { type: "number", description: "加数 a" },
+        b: { type: "number", description: "加数 b" },
+      },
+      required: ["a", "b"],
+    },
+  },
+  {
+    name: "echo",
+    description: "原样返回传入的 text",
+    inputSchema: {
+      type: "object",
+      properties: {
+        text: { type: "string", description: "要回显的文本" },
+      },
+      required: ["text"],
+    },
+  },
+] as const;
+
+const AGENT_TOOL_SUFFIX = "_agent";
+
+let registry: typeof AgentRegistry | null | undefined;
+
+/**
+ * 加载智能体注册表（首次使用时加载）
+ * 智能体在加载时就会创建模型（如缺少 OPENAI_API_KEY 会直接抛错），
+ * 这里捕获错误后只提供演示工具，保证 resources / prompts 等功能仍然可用
+ */
+const getRegistry = () => {
+  if (registry !== undefined) return registry;
+  try {
+    registry = require("../src/agent_registry") as typeof AgentRegistry;
+  } catch (error) {
+    console.error(`[MCP] 智能体加载失败，只提供演示工具：${error instanceof Error ? error.message : String(error)}`);
+    registry = null;
+  }
+  return registry;
+};
+
+const agentToolName = (agent: AgentRegistry.AgentDefinition) => `${agent.name}${AGENT_TOOL_SUFFIX}`;
+
+/**
+ * 所有工具：演示工具 + 每个智能体图对应的工具（inputSchema 由注册表中的输入字段生成）
+ */
+const listTools = () => {
+  const reg = getRegistry();
+  const agentTools = (reg?.AGENTS ?? []).map((agent) => ({
+    name: agentToolName(agent),
+    description: agent.description,
+    inputSchema: reg!.agentInputSchema(agent),
+  }));
+  return [...DEMO_TOOLS, ...agentTools];
+};
+
+const ASSETS_DIR = resolve(process.env.MCP_ASSETS_DIR ?? join(__dirname, "../assets"));
+
+const MIME_TYPES: Record<string, string> = {
+  ".json": "application/json",
+  ".md": "text/markdown",
+  ".txt": "text/plain",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+};
+
+const mimeTypeOf = (filePath: string) => MIME_TYPES[extname(filePath).toLowerCase()] ?? "application/octet-stream";
+
+// text/* 与 JSON 以文本返回，其余（图片等）以 base64 blob 返回
+const isTextMimeType = (mimeType: string) => mimeType.startsWith("text/") || mimeType === "application/json";
+
+/**
+ * 递归列出资源目录下的所有文件
+ */
+const listAssetFiles = (dir: string): string[] => {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) return listAssetFiles(fullPath);
+    return entry.isFile() ? [fullPath] : [];
+  });
+};
+
+/**
+ * 把资源 URI 解析为 assets/ 内的文件路径；不在目录内（如 ../ 越界）时返回 undefined
+ */
+const resolveAssetUri = (uri: string) => {
+  let filePath: string;
+  try {
+    filePath = resolve(fileURLToPath(uri));
+  } catch {
+    return undefined;
+  }
+  return filePath.startsWith(ASSETS_DIR + sep) ? filePath : undefined;
+};
+
+
+const handleInitialize = (id: JsonRpcId, params: unknown) => {
+  const clientProtocol = (params as any)?.protocolVersion;
+  const negotiated = typeof clientProtocol === "string" ? clientProtocol : PROTOCOL_VERSION;
+
+  return resultOf(id, {
+    protocolVersion: negotiated,
+    capabilities: {
+      tools: { listChanged: false },
+      resources: { subscribe: false, listChanged: false },
+      prompts: { listChanged: false },
+    },
+    serverInfo: {
+      name: "demo-mcp-server",
+      version: "0.0.1",
+    },
+  });
+};
+
+const handleToolsList = (id: JsonRpcId) => resultOf(id, { tools: listTools() });
+
+/**
+ * 执行智能体图：每次调用新建一个线程，返回最终结果字段的文本
+ * - 参数不合法：JSON-RPC 错误 -32602
+ * - 图执行失败：按 MCP 约定返回 isError: true 的结果，让调用方（通常是 LLM）看到错误信息
+ * - 被客户端取消：返回 undefined，不再回包
+ */
+const callAgentTool = async (session: McpSession, id: JsonRpcId, agent: AgentRegistry.AgentDefinition, args: unknown) => {
+  const { validateAgentInput, formatAgentOutput } = getRegistry()!;
+  const validation = validateAgentInput(agent, args);
+  if (!validation.ok) {
+    return errorOf(id, -32602, `参数错误：${validation.errors.join("; ")}`, { name: agentToolName(agent), arguments: args });
+  }
+
+  const config = threadConfig();
+  const controller = new AbortController();
+  session.inFlight.set(id, controller);
+  try {
+    const result = await agent.app.invoke(validation.input, { ...config, signal: controller.signal });
+    // 图在中断处暂停（如 hitl 等待人工审核）时，提示调用方去 HTTP 审核接口继续
+    const { next } = await agent.app.getState(config);
+    const text =
+      next.length > 0
+        ? `线程 ${config.configurable.thread_id} 已暂停，等待执行: ${next.join(", ")}`
+        : formatAgentOutput(agent, result);
+    return resultOf(id, { content: [{ type: "text", text }] });
+  } catch (error) {
+    // 客户端已取消该请求，按 MCP 约定不再回包
+    if (controller.signal.aborted) return undefined;
+    return resultOf(id, {
+      content: [{ type: "text", text: `智能体执行失败：${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    });
+  } finally {
+    session.inFlight.delete(id);
+  }
+};
+
+const handleToolsCall = async (session: McpSession, id: JsonRpcId, params: unknown) => {
+  const name = (params as any)?.name;
+  const args = (params as any)?.arguments ?? {};
+
+  if (name === "math_add") {
+    const a = (args as any)?.a;
+    const b = (args as any)?.b;
+    if (typeof a !== "number" || typeof b !== "number") {
+      return errorOf(id, -32602, "参数错误：math_add 需要 number 类型的 a、b", { name, arguments: args });
+    }
+
+    // MCP tools/call 返回结构：result.content 是一个数组（通常 text）。
+    return resultOf(id, { content: [{ type: "text", text: String(a + b) }] });
+  }
+
+  if (name === "echo") {
+    const text = (args as any)?.text;
+    if (typeof text !== "string") {
+      return errorOf(id, -32602, "参数错误：echo 需要 string 类型的 text", { name, arguments: args });
+    }
+    return resultOf(id, { content: [{ type: "text", text }] });
+  }
+
+  const agent = getRegistry()?.AGENTS.find((a) => agentToolName(a) === name);
+  if (agent) return callAgentTool(session, id, agent, args);
+
+  return errorOf(id, -32601, `未知工具：${String(name)}`, { name, arguments: args });
+};
+
+const handleResourcesList = (id: JsonRpcId) => {
+  const resources = listAssetFiles(ASSETS_DIR).map((filePath) => ({
+    uri: pathToFileURL(filePath).href,
+    name: relative(ASSETS_DIR, filePath).split(sep).join("/"),
+    mimeType: mimeTypeOf(filePath),
+    size: statSync(filePath).size,
+  }));
+  return resultOf(id, { resources });
+};
+
+const handleResourcesRead = (id: JsonRpcId, params: unknown) => {
+  const uri = (params as any)?.uri;
+  if (typeof uri !== "string") {
+    return errorOf(id, -32602, "参数错误：resources/read 需要 string 类型的 uri", params);
+  }
+
+  const filePath = resolveAssetUri(uri);
+  if (!filePath || !existsSync(filePath) || !statSync(filePath).isFile()) {
+    // -32002：MCP 约定的 “Resource not found”
+    return errorOf(id, -32002, `资源不存在：${uri}`, { uri });
+  }
+
+  const mimeType = mimeTypeOf(filePath);
+  const content = readFileSync(filePath);
+  return resultOf(id, {
+    contents: [
+      isTextMimeType(mimeType)
+        ? { uri, mimeType, text: content.toString("utf-8") }
+        : { uri, mimeType, blob: content.toString("base64") },
+    ],
+  });
+};
+
+const handlePromptsList = (id: JsonRpcId) => {
+  const prompts = Object.entries(SYSTEM_PROMPTS).map(([name, prompt]) => ({
+    name,
+    description: `[${prompt.agent}] ${prompt.description}`,
+    arguments: [{ name: "input", description: "可选：附在系统提示词之后的用户输入", required: false }],
+  }));
+  return resultOf(id, { prompts });
+};
+
+const handlePromptsGet = (id: JsonRpcId, params: unknown) => {
+  const name = (params as any)?.name;
+  const args = (params as any)?.arguments ?? {};
+
+  if (typeof name !== "string" || !(name in SYSTEM_PROMPTS)) {
+    return errorOf(id, -32602, `未知提示词：${String(name)}`, { name });
+  }
+  if (args.input !== undefined && typeof args.input !== "string") {
+    return errorOf(id, -32602, "参数错误：input 必须是 string", { name, arguments: args });
+  }
+
+  // MCP 的 prompt 消息只有 user / assistant 两种角色，系统提示词作为第一条 user 消息下发
+  const prompt = SYSTEM_PROMPTS[name as SystemPromptName];
+  const messages = [{ role: "user", content: { type: "text", text: prompt.text } }];
+  if (args.input) messages.push({ role: "user", content: { type: "text", text: args.input } });
+
+  return resultOf(id, { description: prompt.description, messages });
+};
+
+/**
+ * 处理一条 JSON-RPC 消息
+ * @returns 需要回给客户端的响应；notification 或被取消的请求返回 undefined
+ */
+const handleMcpMessage = async (session: McpSession, req: JsonRpcRequest): Promise<JsonRpcResponse | undefined> => {
+  const id = req.id ?? null;
+
+  // notification（无 id）不回包
+  const hasId = typeof req.id === "string" || typeof req.id === "number" || req.id === null;
+  const mustRespond = hasId && req.id !== undefined;
+
+  const dispatch = async () => {
+    if (req.jsonrpc !== "2.0") return errorOf(id, -32600, "无效请求：jsonrpc 必须是 2.0");
+
+    if (req.method === "notifications/cancelled") {
+      const requestId = (req.params as any)?.requestId;
+      const controller = session.inFlight.get(requestId);
+      if (controller) {
+        console.error(`[MCP] 请求 ${requestId} 已被客户端取消：${(req.params as any)?.reason ?? ""}`);
+        controller.abort();
+      }
+      return undefined;
+    }
+
+    if (req.method === "initialize") return handleInitialize(id, req.params);
+    if (req.method === "tools/list") return handleToolsList(id);
+    if (req.method === "tools/call") return handleToolsCall(session, id, req.params);
+    if (req.method === "resources/list") return handleResourcesList(id);
+    if (req.method === "resources/read") return handleResourcesRead(id, req.params);
+    if (req.method === "prompts/list") return handlePromptsList(id);
+    if (req.method === "prompts/get") return handlePromptsGet(id, req.params);
+
+    return errorOf(id, -32601, `未知方法：${req.method}`);
+  };
+
+  try {
+    const response = await dispatch();
+    return mustRespond ? response : undefined;
+  } catch (error) {
+    return mustRespond ? errorOf(id, -32603, "服务器内部错误", error instanceof Error ? error.message : String(error)) : undefined;
+  }
+};
+
+/**
+ * 解析失败时的响应：无法确定 id，按 JSON-RPC 规范返回 id=null
+ */
+const parseErrorResponse = (error: unknown) =>
+  errorOf(null, -32700, "解析错误：不是合法 JSON", error instanceof Error ? error.message : String(error));
+
+export { createMcpSession, handleMcpMessage, parseErrorResponse };
+export type { JsonRpcRequest, JsonRpcResponse, McpSession };
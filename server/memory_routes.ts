@@ -0,0 +1,97 @@
+/**
+ * 长期记忆路由（记忆智能体）
+ * 记忆由对话自动提炼，也可以通过以下接口查看和维护：
+ * - GET    /api/memories：列出有记忆的用户
+ * - GET    /api/memories/:userId：列出用户的全部记忆；带 ?q=xxx 时按语义召回
+ * - POST   /api/memories/:userId：手动添加 { text, category? }
+ * - PUT    /api/memories/:userId/:memoryId：编辑 { text?, category? }
+ * - DELETE /api/memories/:userId/:memoryId：遗忘一条记忆
+ * - DELETE /api/memories/:userId：遗忘用户的全部记忆
+ */
+
+import type { Express, Request, Response } from "express";
+import { getMemoryStore, MEMORY_CATEGORIES, type MemoryCategory } from "../src/memory_store";
+
+const sendError = (res: Response, error: unknown) => {
+  console.error("[API] 记忆接口错误:", error);
+  res.status(500).json({
+    error: "记忆处理失败",
+    message: error instanceof Error ? error.message : String(error),
+  });
+};
+
+/**
+ * 校验请求体中的 text / category；requireText 为 false 时两者都可省略
+ */
+const parseMemoryBody = (body: unknown, requireText: boolean) => {
+  const { text, category } = (body ?? {}) as Record<string, unknown>;
+  const validText = typeof text === "string" && text.trim() !== "";
+  if (requireText && !validText) return { error: "缺少必需参数: text (string)" };
+  if (text !== undefined && !validText) return { error: "参数 text 必须是非空字符串" };
+  if (category !== undefined && !MEMORY_CATEGORIES.includes(category as MemoryCategory)) {
+    return { error: `参数 category 必须是 ${MEMORY_CATEGORIES.join(" | ")}` };
+  }
+  return { text: (text as string | undefined)?.trim(), category: category as MemoryCategory | undefined };
+};
+
+export const registerMemoryRoutes = (server: Express) => {
+  const store = getMemoryStore();
+
+  server.get("/api/memories", (req: Request, res: Response) => {
+    res.json({ users: store.listUsers() });
+  });
+
+  server.get("/api/memories/:userId", async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+      if (typeof req.query.q === "string" && req.query.q) {
+        return res.json({ userId, query: req.query.q, results: await store.recall(userId, req.query.q) });
+      }
+      res.json({ userId, memories: await store.list(userId) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  server.post("/api/memories/:userId", async (req: Request, res: Response) => {
+    const parsed = parseMemoryBody(req.body, true);
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+    try {
+      const { memory, created } = await store.add(req.params.userId, parsed.text!, { category: parsed.category });
+      res.status(created ? 201 : 200).json({ success: true, created, memory });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  server.put("/api/memories/:userId/:memoryId", async (req: Request, res: Response) => {
+    const parsed = parseMemoryBody(req.body, false);
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+    try {
+      const memory = await store.update(req.params.userId, req.params.memoryId, parsed);
+      if (!memory) return res.status(404).json({ error: `记忆不存在: ${req.params.memoryId}` });
+      res.json({ success: true, memory });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  server.delete("/api/memories/:userId/:memoryId", async (req: Request, res: Response) => {
+    try {
+      if (!(await store.forget(req.params.userId, req.params.memoryId))) {
+        return res.status(404).json({ error: `记忆不存在: ${req.params.memoryId}` });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  server.delete("/api/memories/:userId", async (req: Request, res: Response) => {
+    try {
+      res.json({ success: true, forgotten: await store.forgetAll(req.params.userId) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+};
@@ -0,0 +1,64 @@
+/**
+ * 知识库对话路由（RAG 智能体多轮对话）
+ * 每个会话对应 RAG 智能体的一个线程，对话历史由检查点持久化，服务重启后可以继续：
+ * - POST   /api/rag/chat：发送 { message, threadId? }，不传 threadId 则新建会话，返回带引用的回答
+ * - GET    /api/rag/chat：列出所有会话
+ * - GET    /api/rag/chat/:threadId：查看会话的对话历史
+ */
+
+import { randomUUID } from "crypto";
+import type { Express, Request, Response } from "express";
+import { HumanMessage } from "@langchain/core/messages";
+import { app as ragApp } from "../src/rag_agent";
+import { getCheckpointer, threadConfig } from "../src/checkpointer";
+import { serializeState } from "../src/agent_registry";
+
+const sendError = (res: Response, error: unknown) => {
+  console.error("[API] 知识库对话错误:", error);
+  res.status(500).json({
+    error: "知识库对话失败",
+    message: error instanceof Error ? error.message : String(error),
+  });
+};
+
+export const registerRagChatRoutes = (server: Express) => {
+  server.post("/api/rag/chat", async (req: Request, res: Response) => {
+    const { message, threadId: requestedId } = req.body ?? {};
+    if (typeof message !== "string" || !message.trim()) {
+      return res.status(400).json({ error: "缺少必需参数: message (string)" });
+    }
+    if (requestedId !== undefined && (typeof requestedId !== "string" || !requestedId)) {
+      return res.status(400).json({ error: "参数 threadId 必须是非空字符串" });
+    }
+
+    try {
+      const threadId = requestedId ?? randomUUID();
+      console.log(`[API] 知识库对话 ${threadId}: ${message}`);
+      const result = await ragApp.invoke({ messages: [new HumanMessage(message)] }, threadConfig(threadId));
+      res.json({
+        success: true,
+        threadId,
+        turn: result.turn,
+        question: result.question, // 结合历史改写后的独立问题
+        ...result.result,
+      });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  server.get("/api/rag/chat", (req: Request, res: Response) => {
+    res.json({ threads: getCheckpointer("rag").listThreads() });
+  });
+
+  server.get("/api/rag/chat/:threadId", async (req: Request, res: Response) => {
+    try {
+      const snapshot = await ragApp.getState(threadConfig(req.params.threadId));
+      if (!snapshot.createdAt) return res.status(404).json({ error: `会话不存在: ${req.params.threadId}` });
+      const { messages } = serializeState({ messages: snapshot.values.messages ?? [] }) as { messages: unknown[] };
+      res.json({ threadId: req.params.threadId, turn: snapshot.values.turn, messages });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+};
@@ -0,0 +1,86 @@
+/**
+ * 人工审核路由（HITL 智能体）
+ * 草稿由 POST /api/agents/hitl/invoke 发起，图在审核节点中断后，审核人员可以随时通过以下接口处理：
+ * - GET  /api/reviews：列出所有待审核的线程
+ * - GET  /api/reviews/:threadId：查看某个线程的草稿
+ * - POST /api/reviews/:threadId：提交 { feedback: "approve" | 修改建议 }，恢复线程；
+ *   同一线程的反馈逐个处理，上一条反馈恢复的图还在执行时再次提交返回 409
+ */
+
+import type { Express, Request, Response } from "express";
+import { Command } from "@langchain/langgraph";
+import { app as hitlApp, getPendingReview } from "../src/hitl_agent";
+import { getCheckpointer, threadConfig } from "../src/checkpointer";
+
+// 正在恢复执行的线程，防止并发提交的反馈把同一个中断恢复两次
+const resumingThreads = new Set<string>();
+
+const sendError = (res: Response, error: unknown) => {
+  console.error("[API] 审核接口错误:", error);
+  res.status(500).json({
+    error: "审核处理失败",
+    message: error instanceof Error ? error.message : String(error),
+  });
+};
+
+export const registerReviewRoutes = (server: Express) => {
+  server.get("/api/reviews", async (req: Request, res: Response) => {
+    try {
+      const reviews = [];
+      for (const thread of getCheckpointer("hitl").listThreads()) {
+        const review = await getPendingReview(threadConfig(thread.threadId));
+        if (review) reviews.push({ threadId: thread.threadId, updatedAt: thread.updatedAt, ...review });
+      }
+      res.json({ reviews });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  server.get("/api/reviews/:threadId", async (req: Request, res: Response) => {
+    try {
+      const review = await getPendingReview(threadConfig(req.params.threadId));
+      if (!review) return res.status(404).json({ error: `没有待审核的草稿: ${req.params.threadId}` });
+      res.json({ threadId: req.params.threadId, ...review });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  server.post("/api/reviews/:threadId", async (req: Request, res: Response) => {
+    const { feedback } = req.body ?? {};
+    if (typeof feedback !== "string" || !feedback.trim()) {
+      return res.status(400).json({ error: "缺少必需参数: feedback (string)，批准请传 \"approve\"" });
+    }
+
+    const { threadId } = req.params;
+    if (resumingThreads.has(threadId)) {
+      return res.status(409).json({ error: `该线程正在处理上一条审核反馈: ${threadId}` });
+    }
+    resumingThreads.add(threadId);
+
+    try {
+      const config = threadConfig(threadId);
+      if (!(await getPendingReview(config))) {
+        return res.status(404).json({ error: `没有待审核的草稿: ${threadId}` });
+      }
+
+      console.log(`[API] 线程 ${threadId} 收到审核反馈: ${feedback}`);
+      const result = await hitlApp.invoke(new Command({ resume: feedback }), config);
+
+      // 修改意见会让图回到 writer 并再次中断，返回新的草稿等待下一轮审核
+      const nextReview = await getPendingReview(config);
+      res.json({
+        success: true,
+        threadId,
+        status: nextReview ? "pending_review" : "completed",
+        draft: result.draft,
+        finalResult: result.finalResult,
+      });
+    } catch (error) {
+      sendError(res, error);
+    } finally {
+      resumingThreads.delete(threadId);
+    }
+  });
+};
@@ -0,0 +1,370 @@
+/**
+ * 智能体注册表 (Agent Registry)
+ *
+ * 功能概述：
+ * 汇总所有智能体导出的 app 与状态定义，供 HTTP 服务器等外部入口统一调用。
+ * 每个智能体声明自己的输入字段，输入校验基于其 Annotation.Root 状态字段。
+ *
+ * 设计要点：
+ * 1. 输入字段必须是状态字段：编译期通过 keyof 约束，运行期再对照 state.spec 检查一次；
+ *    字段的 type 由 Annotation 的值类型推导（string -> "string"，number -> "number"，BaseMessage[] -> "messages"），
+ *    声明的类型与状态类型不一致时编译报错，其他类型的状态字段不能作为输入
+ * 2. 未知字段拒绝：请求体中出现状态里不存在的字段直接报错，避免拼写错误被静默忽略
+ * 3. 消息字段转换：messages 类型的字段接受 { role, content } 数组，转换为 LangChain 消息
+ * 4. 输出序列化：最终状态中的消息对象转换为 { role, content }，便于 JSON 返回
+ * 5. 输出字段：每个智能体声明哪个状态字段是最终结果，供 MCP 工具等只需要一段文本的入口使用
+ * 6. 跨字段约束：oneOf 列出的可选字段至少要提供一个（如 rag 的 question / messages），缺少时按参数错误返回
+ */
+
+import type { AnnotationRoot, CompiledStateGraph, StateDefinition } from "@langchain/langgraph";
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { app as chainingApp, PipelineState } from "./chaining_agent";
+import { app as collaborationApp, TeamState } from "./collaboration_agent";
+import { app as consistencyApp, ConsistencyState } from "./consistency_agent";
+import { app as explorationApp, ExplorationState } from "./exploration_agent";
+import { app as guardrailsApp, SafetyState } from "./guardrails_agent";
+import { app as hitlApp, HitlState } from "./hitl_agent";
+import { app as learningApp, LearningState } from "./learning_agent";
+import { app as memoryApp, MemoryState } from "./memory_agent";
+import { app as multimodalApp, MultimodalState } from "./multimodal_agent";
+import { app as parallelApp, ParallelState } from "./parallel_agent";
+import { app as planningApp, PlanningState } from "./planning_agent";
+import { app as ragApp, RagState } from "./rag_agent";
+import { app as reflexionApp, ReflexionState } from "./reflexion_agent";
+import { app as resourceApp, ResourceState } from "./resource_agent";
+import { app as robustnessApp, RobustState } from "./robustness_agent";
+import { app as routingApp, RoutingState } from "./routing_agent";
+import { app as totApp, ToTState } from "./tot_agent";
+
+type InputFieldType = "string" | "number" | "messages";
+
+type InputField<T extends InputFieldType = InputFieldType> = {
+  type: T;
+  description: string;
+  required?: boolean; // 默认必填
+};
+
+// 状态字段的值类型对应的输入类型；不能作为输入的类型为 never
+type InputFieldTypeOf<V> = [V] extends [BaseMessage[]] ? "messages" : [V] extends [string] ? "string" : [V] extends [number] ? "number" : never;
+
+// 由状态类型推导出的输入声明：每个字段的 type 必须与状态字段的值类型一致
+type InputSpec<State> = {
+  [K in keyof State & string]?: InputField<InputFieldTypeOf<NonNullable<State[K]>>>;
+};
+
+type AgentDefinition = {
+  name: string;
+  description: string;
+  app: CompiledStateGraph<any, any, any, any, any, any>;
+  state: AnnotationRoot<any>;
+  input: Record<string, InputField>;
+  oneOf?: string[]; // 这些输入字段至少提供一个
+  output: string; // 保存最终结果的状态字段
+};
+
+/**
+ * 定义智能体：input 的键必须是状态字段，type 必须与状态字段的值类型一致
+ */
+function defineAgent<SD extends StateDefinition>(def: {
+  name: string;
+  description: string;
+  app: CompiledStateGraph<any, any, any, any, any, any>;
+  state: AnnotationRoot<SD>;
+  input: InputSpec<AnnotationRoot<SD>["State"]>;
+  oneOf?: (keyof SD & string)[];
+  output: keyof SD & string;
+}): AgentDefinition {
+  for (const field of Object.keys(def.input)) {
+    if (!(field in def.state.spec)) {
+      throw new Error(`智能体 ${def.name} 的输入字段 "${field}" 不在状态定义中`);
+    }
+  }
+  for (const field of def.oneOf ?? []) {
+    if (def.input[field]?.required !== false) {
+      throw new Error(`智能体 ${def.name} 的 oneOf 字段 "${field}" 必须是可选的输入字段`);
+    }
+  }
+  if (!(def.output in def.state.spec)) {
+    throw new Error(`智能体 ${def.name} 的输出字段 "${def.output}" 不在状态定义中`);
+  }
+  return def as AgentDefinition;
+}
+
+const AGENTS: AgentDefinition[] = [
+  defineAgent({
+    name: "chaining",
+    description: "提示链：大纲 -> 草稿 -> 翻译",
+    app: chainingApp,
+    state: PipelineState,
+    input: { topic: { type: "string", description: "小说主题" } },
+    output: "finalOutput",
+  }),
+  defineAgent({
+    name: "collaboration",
+    description: "多智能体协作：监督者调度研究员与作家",
+    app: collaborationApp,
+    state: TeamState,
+    input: { messages: { type: "messages", description: "对话消息，最后一条为任务描述" } },
+    output: "messages",
+  }),
+  defineAgent({
+    name: "consistency",
+    description: "自洽性：多次采样后投票",
+    app: consistencyApp,
+    state: ConsistencyState,
+    input: { question: { type: "string", description: "需要推理的问题" } },
+    output: "finalAnswer",
+  }),
+  defineAgent({
+    name: "exploration",
+    description: "探索与发现：提出假设并验证",
+    app: explorationApp,
+    state: ExplorationState,
+    input: { domain: { type: "string", description: "探索领域" } },
+    output: "finalReport",
+  }),
+  defineAgent({
+    name: "guardrails",
+    description: "护栏：生成后审计，不安全则重写",
+    app: guardrailsApp,
+    state: SafetyState,
+    input: { input: { type: "string", description: "用户输入" } },
+    output: "finalOutput",
+  }),
+  defineAgent({
+    name: "hitl",
+    description: "人机协同：撰写邮件草稿并等待人工审核",
+    app: hitlApp,
+    state: HitlState,
+    input: { task: { type: "string", description: "邮件任务" } },
+    output: "finalResult",
+  }),
+  defineAgent({
+    name: "learning",
+    description: "学习与适应：回忆经验 -> 执行 -> 总结经验",
+    app: learningApp,
+    state: LearningState,
+    input: { task: { type: "string", description: "用户任务" } },
+    output: "result",
+  }),
+  defineAgent({
+    name: "memory",
+    description: "记忆管理：短期对话压缩为摘要，长期记忆按用户保存并召回",
+    app: memoryApp,
+    state: MemoryState,
+    input: {
+      messages: { type: "messages", description: "对话消息" },
+      userId: { type: "string", description: "用户 ID，长期记忆按用户保存（默认 default）", required: false },
+      tokenBudget: { type: "number", description: "短期记忆的 token 预算，超出后压缩最早的对话（默认 1000）", required: false },
+    },
+    output: "messages",
+  }),
+  defineAgent({
+    name: "multimodal",
+    description: "多模态：识别服务器图片目录中的图片并回答问题",
+    app: multimodalApp,
+    state: MultimodalState,
+    input: {
+      imagePath: { type: "string", description: "图片路径，相对于服务器的图片目录（默认 assets/），不能超出该目录" },
+      question: { type: "string", description: "关于图片的问题", required: false },
+    },
+    output: "answer",
+  }),
+  defineAgent({
+    name: "parallel",
+    description: "并行化：正反方同时分析后汇总",
+    app: parallelApp,
+    state: ParallelState,
+    input: { topic: { type: "string", description: "辩论主题" } },
+    output: "finalSummary",
+  }),
+  defineAgent({
+    name: "planning",
+    description: "规划：生成带依赖的计划，并行执行互不依赖的步骤（可调用代码运行、文件读写和 MCP 工具），每批执行后重规划",
+    app: planningApp,
+    state: PlanningState,
+    input: { objective: { type: "string", description: "用户目标" } },
+    output: "response",
+  }),
+  defineAgent({
+    name: "rag",
+    description: "知识检索：检索知识库后生成带引用的回答，支持多轮对话",
+    app: ragApp,
+    state: RagState,
+    input: {
+      question: { type: "string", description: "用户问题（单轮问答）", required: false },
+      messages: { type: "messages", description: "新的用户消息（多轮对话，配合 threadId 使用）", required: false },
+    },
+    oneOf: ["question", "messages"],
+    output: "result",
+  }),
+  defineAgent({
+    name: "reflexion",
+    description: "反思：生成 -> 评审 -> 重写",
+    app: reflexionApp,
+    state: ReflexionState,
+    input: { request: { type: "string", description: "写作需求" } },
+    output: "content",
+  }),
+  defineAgent({
+    name: "resource",
+    description: "资源感知：按任务复杂度选择模型",
+    app: resourceApp,
+    state: ResourceState,
+    input: { task: { type: "string", description: "用户任务" } },
+    output: "response",
+  }),
+  defineAgent({
+    name: "robustness",
+    description: "异常处理：重试失败后降级",
+    app: robustnessApp,
+    state: RobustState,
+    input: { task: { type: "string", description: "用户任务" } },
+    output: "result",
+  }),
+  defineAgent({
+    name: "routing",
+    description: "路由：按意图分发给专家",
+    app: routingApp,
+    state: RoutingState,
+    input: { request: { type: "string", description: "用户请求" } },
+    output: "response",
+  }),
+  defineAgent({
+    name: "tot",
+    description: "思维树：按束搜索、深度优先（带回溯）或蒙特卡洛树搜索多层展开思路、评估并求解",
+    app: totApp,
+    state: ToTState,
+    input: {
+      problem: { type: "string", description: "待解决的问题" },
+      searchMode: { type: "string", description: "搜索策略：bfs（束搜索）、dfs（深度优先）或 mcts（蒙特卡洛树搜索）", required: false },
+      branching: { type: "number", description: "每个节点扩展的思路数（最多 10）", required: false },
+      maxDepth: { type: "number", description: "最大深度（思路步数）", required: false },
+      beamWidth: { type: "number", description: "bfs 每层保留的节点数", required: false },
+      simulations: { type: "number", description: "mcts 模拟次数", required: false },
+    },
+    output: "finalSolution",
+  }),
+];
+
+const getAgent = (name: string) => AGENTS.find((agent) => agent.name === name);
+
+/**
+ * 把 { role, content } 转换为 LangChain 消息；纯字符串视为用户消息
+ */
+const toMessage = (value: unknown): BaseMessage | undefined => {
+  if (typeof value === "string") return new HumanMessage(value);
+  const role = (value as any)?.role;
+  const content = (value as any)?.content;
+  if (typeof content !== "string") return undefined;
+  if (role === "user" || role === "human") return new HumanMessage(content);
+  if (role === "assistant" || role === "ai") return new AIMessage(content);
+  if (role === "system") return new SystemMessage(content);
+  return undefined;
+};
+
+/**
+ * 校验并转换请求体，返回图的输入或错误列表
+ */
+const validateAgentInput = (
+  agent: AgentDefinition,
+  body: unknown
+): { ok: true; input: Record<string, unknown> } | { ok: false; errors: string[] } => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, errors: ["请求体必须是 JSON 对象"] };
+  }
+
+  const errors: string[] = [];
+  const input: Record<string, unknown> = {};
+  const raw = body as Record<string, unknown>;
+
+  for (const key of Object.keys(raw)) {
+    if (!(key in agent.state.spec)) errors.push(`未知字段: ${key}`);
+    else if (!(key in agent.input)) errors.push(`字段 ${key} 不是输入字段`);
+  }
+
+  for (const [field, spec] of Object.entries(agent.input)) {
+    const value = raw[field];
+    if (value === undefined || value === null || value === "") {
+      if (spec.required !== false) errors.push(`缺少必需参数: ${field} (${spec.type})`);
+      continue;
+    }
+    if (spec.type === "messages") {
+      const messages = Array.isArray(value) ? value.map(toMessage) : [];
+      if (!Array.isArray(value) || messages.length === 0 || messages.some((m) => !m)) {
+        errors.push(`参数 ${field} 必须是非空数组，元素为字符串或 { role, content }`);
+        continue;
+      }
+      input[field] = messages;
+      continue;
+    }
+    if (typeof value !== spec.type) {
+      errors.push(`参数 ${field} 类型错误，期望 ${spec.type}`);
+      continue;
+    }
+    input[field] = value;
+  }
+
+  if (agent.oneOf && !agent.oneOf.some((field) => field in input)) {
+    errors.push(`需要提供 ${agent.oneOf.join(" 或 ")} 其中之一`);
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, input };
+};
+
+/**
+ * 生成输入字段对应的 JSON Schema（MCP 工具的 inputSchema）
+ */
+const agentInputSchema = (agent: AgentDefinition) => {
+  const properties: Record<string, unknown> = {};
+  for (const [field, spec] of Object.entries(agent.input)) {
+    properties[field] =
+      spec.type === "messages"
+        ? {
+            type: "array",
+            description: spec.description,
+            items: {
+              type: "object",
+              properties: {
+                role: { type: "string", enum: ["user", "assistant", "system"] },
+                content: { type: "string" },
+              },
+              required: ["role", "content"],
+            },
+          }
+        : { type: spec.type, description: spec.description };
+  }
+  const required = Object.entries(agent.input)
+    .filter(([, spec]) => spec.required !== false)
+    .map(([field]) => field);
+  const anyOf = agent.oneOf?.map((field) => ({ required: [field] }));
+  return { type: "object", properties, required, ...(anyOf ? { anyOf } : {}), additionalProperties: false };
+};
+
+/**
+ * 提取最终结果文本：消息列表取最后一条，其余非字符串值转为 JSON
+ */
+const formatAgentOutput = (agent: AgentDefinition, state: Record<string, unknown>) => {
+  const value = state[agent.output];
+  if (typeof value === "string") return value;
+  if (Array.isArray(value) && value.at(-1) instanceof BaseMessage) {
+    const last = value.at(-1) as BaseMessage;
+    return typeof last.content === "string" ? last.content : JSON.stringify(last.content);
+  }
+  return JSON.stringify(value ?? null, null, 2);
+};
+
+/**
+ * 序列化图状态：消息对象转换为 { role, content }
+ */
+const serializeState = (state: Record<string, unknown>) => {
+  const toJson = (value: unknown): unknown => {
+    if (value instanceof BaseMessage) return { role: value.getType(), content: value.content };
+    if (Array.isArray(value)) return value.map(toJson);
+    return value;
+  };
+  return Object.fromEntries(Object.entries(state).map(([key, value]) => [key, toJson(value)]));
+};
+
+export { AGENTS, getAgent, validateAgentInput, serializeState, agentInputSchema, formatAgentOutput };
+export type { AgentDefinition, InputField, InputFieldType };
@@ -20,7 +20,9 @@
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel } from "./model_provider";
+import { SYSTEM_PROMPTS } from "./agent_prompts";
+import { getCheckpointer, threadConfig } from "./checkpointer";
 
 // 定义状态：每个字段代表流水线的一个阶段
 const PipelineState = Annotation.Root({
@@ -30,12 +32,7 @@ const PipelineState = Annotation.Root({
   finalOutput: Annotation<string>,  // 阶段3输出：最终结果
 });
 
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-const model = new ChatOpenAI({ ...CONFIG, temperature: 0.7 }); // 适中的创造性，适合创作任务
+const model = createChatModel("chaining", { temperature: 0.7 }); // 适中的创造性，适合创作任务
 
 /**
  * 阶段1：生成大纲节点
@@ -44,7 +41,7 @@ const model = new ChatOpenAI({ ...CONFIG, temperature: 0.7 }); // 适中的创
 async function outlineNode(state: typeof PipelineState.State) {
   const { topic } = state;
   console.log(`\n📑 [Step 1] 正在生成大纲: ${topic}`);
-  const response = await model.invoke([new SystemMessage("你是一名小说家。请根据用户的主题，写一个包含3个章节的简短大纲。"), new HumanMessage(topic)]);
+  const response = await model.invoke([new SystemMessage(SYSTEM_PROMPTS.chaining_outline.text), new HumanMessage(topic)]);
   console.log("生成大纲",response.content);
   return { outline: response.content as string };
 }
@@ -56,7 +53,7 @@ async function outlineNode(state: typeof PipelineState.State) {
 async function draftNode(state: typeof PipelineState.State) {
   const { outline } = state;
   console.log(`\n✍️ [Step 2] 正在根据大纲扩写...`);
-  const response = await model.invoke([new SystemMessage("请根据提供的大纲，扩写成一篇500字以内的微小说。"), new HumanMessage(outline)]);
+  const response = await model.invoke([new SystemMessage(SYSTEM_PROMPTS.chaining_draft.text), new HumanMessage(outline)]);
  
  console.log("生成微小说草稿",response.content);
   return { draft: response.content as string };
@@ -69,7 +66,7 @@ async function draftNode(state: typeof PipelineState.State) {
 async function translateNode(state: typeof PipelineState.State) {
   const { draft } = state;
   console.log(`\n🌍 [Step 3] 正在翻译为英文...`);
-  const response = await model.invoke([new SystemMessage("请将这篇小说翻译成优雅的英文。"), new HumanMessage(draft)]);
+  const response = await model.invoke([new SystemMessage(SYSTEM_PROMPTS.chaining_translate.text), new HumanMessage(draft)]);
   return { finalOutput: response.content as string };
 }
 
@@ -87,11 +84,18 @@ const workflow = new StateGraph(PipelineState)
   .addEdge("write_draft", "translate")
   .addEdge("translate", END);                 // 完成
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("chaining") });
+
+// 导出 app 供服务器使用
+export { app, PipelineState };
 
 async function main() {
   const input = { topic: "21世纪30年代人类重返月球考古阿波罗遗址，发现外星人遗迹" };
-  const result = await app.invoke(input);
+  const result = await app.invoke(input, threadConfig());
   console.log("\n====== 最终成果 (英文版) ======\n" + result.finalOutput);
 }
-main().catch(console.error);
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}
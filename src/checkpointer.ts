@@ -0,0 +1,348 @@
+/**
+ * 文件检查点存储 (File Checkpointer)
+ *
+ * 功能概述：
+ * 把 LangGraph 的检查点持久化到本地 JSON 文件，按 thread_id 区分会话。
+ * 进程崩溃或重启后，可以从线程的最后一个检查点继续执行，不丢失已完成的步骤。
+ *
+ * 设计要点：
+ * 1. 命名空间：每个智能体使用独立目录（.checkpoints/<agent>/），互不干扰，也便于按智能体列出线程
+ * 2. 一个线程一个日志：<thread_id>.jsonl 每行一条记录（检查点或一批挂起写入），读取时按顺序回放
+ * 3. 只追加写入：put / putWrites 只在日志末尾追加一行，不重写已有内容，长时间运行的线程写入开销不随检查点数量增长
+ * 4. 文件锁：追加在 withFileLock 中完成，CLI（THREAD_ID 恢复）和服务器同时写同一线程也不会交错写坏日志；
+ *    崩溃留下的半行会在读取时忽略，并在下次追加前截掉
+ * 5. 损坏报错：日志中间的记录无法解析时直接抛出异常，而不是当作空线程继续写入，避免丢失整个线程的历史
+ * 6. 兼容旧格式：早期版本的 <thread_id>.json 整体文件仍会被读取，作为日志回放的起点
+ * 7. 序列化：复用 BaseCheckpointSaver 的 serde，消息对象等 LangChain 类型可以完整还原
+ *
+ * 环境变量：
+ * - CHECKPOINT_DIR：检查点根目录（默认 ./.checkpoints）
+ */
+
+import { randomUUID } from "crypto";
+import { appendFileSync, closeSync, existsSync, mkdirSync, openSync, readdirSync, readFileSync, readSync, statSync, truncateSync } from "fs";
+import { join } from "path";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  BaseCheckpointSaver,
+  copyCheckpoint,
+  type Checkpoint,
+  type CheckpointMetadata,
+  type CheckpointTuple,
+} from "@langchain/langgraph";
+import { withFileLock } from "./json_file";
+
+type ListOptions = Parameters<BaseCheckpointSaver["list"]>[1];
+type PendingWrite = Parameters<BaseCheckpointSaver["putWrites"]>[1][number];
+
+// 序列化后的值：json 类型存字符串，bytes 类型存 base64
+type StoredValue = { type: string; data: string };
+
+type StoredCheckpoint = {
+  checkpoint: StoredValue;
+  metadata: StoredValue;
+  parentId?: string;
+};
+
+// [taskId, channel, value]
+type StoredWrite = [string, string, StoredValue];
+
+type ThreadFile = {
+  // checkpoint_ns -> checkpoint_id -> 检查点
+  checkpoints: Record<string, Record<string, StoredCheckpoint>>;
+  // "checkpoint_ns|checkpoint_id" -> "taskId,idx" -> 写入
+  writes: Record<string, Record<string, StoredWrite>>;
+};
+
+// 日志中的一行：新检查点，或某个检查点的一批挂起写入（"taskId,idx" -> 写入）
+type LogEntry =
+  | { type: "checkpoint"; ns: string; id: string; saved: StoredCheckpoint }
+  | { type: "writes"; key: string; writes: [string, StoredWrite][] };
+
+type ThreadSummary = {
+  threadId: string;
+  updatedAt: string;
+  checkpointCount: number;
+};
+
+// 与 LangGraph 内部保留通道保持一致：特殊写入使用负数下标，同一任务重复写入时覆盖
+const TASKS = "__pregel_tasks";
+const WRITES_IDX_MAP: Record<string, number> = {
+  __error__: -1,
+  __scheduled__: -2,
+  __interrupt__: -3,
+  __resume__: -4,
+};
+
+class FileCheckpointSaver extends BaseCheckpointSaver {
+  private dir: string;
+
+  constructor(dir: string) {
+    super();
+    this.dir = dir;
+  }
+
+  private logPath(threadId: string) {
+    return join(this.dir, `${encodeURIComponent(threadId)}.jsonl`);
+  }
+
+  private legacyPath(threadId: string) {
+    return join(this.dir, `${encodeURIComponent(threadId)}.json`);
+  }
+
+  /**
+   * 读取线程：旧格式文件作为起点，再按顺序回放日志；内容损坏时抛出异常
+   */
+  private loadThread(threadId: string): ThreadFile {
+    const thread: ThreadFile = { checkpoints: {}, writes: {} };
+    const legacy = this.legacyPath(threadId);
+    if (existsSync(legacy)) {
+      try {
+        Object.assign(thread, JSON.parse(readFileSync(legacy, "utf-8")) as ThreadFile);
+      } catch (error) {
+        throw new Error(`检查点文件已损坏，请检查或手动删除后重试: ${legacy}（${error instanceof Error ? error.message : error}）`);
+      }
+    }
+
+    const path = this.logPath(threadId);
+    if (!existsSync(path)) return thread;
+    // 最后一个换行之后是崩溃时未写完的半行，忽略
+    const lines = readFileSync(path, "utf-8").split("\n").slice(0, -1);
+    lines.forEach((line, index) => {
+      let entry: LogEntry;
+      try {
+        entry = JSON.parse(line) as LogEntry;
+      } catch (error) {
+        throw new Error(`检查点文件已损坏，请检查或手动删除后重试: ${path} 第 ${index + 1} 行（${error instanceof Error ? error.message : error}）`);
+      }
+      if (entry.type === "checkpoint") {
+        thread.checkpoints[entry.ns] ??= {};
+        thread.checkpoints[entry.ns][entry.id] = entry.saved;
+      } else {
+        const target = (thread.writes[entry.key] ??= {});
+        for (const [innerKey, write] of entry.writes) {
+          // 普通写入只记录第一次；特殊通道（错误、中断、恢复）允许覆盖
+          if ((WRITES_IDX_MAP[write[1]] ?? 0) >= 0 && innerKey in target) continue;
+          target[innerKey] = write;
+        }
+      }
+    });
+    return thread;
+  }
+
+  /**
+   * 在文件锁内向线程日志追加一行
+   */
+  private appendEntry(threadId: string, entry: LogEntry): Promise<void> {
+    const path = this.logPath(threadId);
+    return withFileLock(path, () => {
+      this.dropPartialLine(path);
+      appendFileSync(path, `${JSON.stringify(entry)}\n`, "utf-8");
+    });
+  }
+
+  /**
+   * 日志不以换行结尾说明上次追加中途崩溃，截掉半行，避免新记录拼接在后面导致整行损坏
+   */
+  private dropPartialLine(path: string) {
+    if (!existsSync(path)) return;
+    const size = statSync(path).size;
+    if (size === 0) return;
+    const last = Buffer.alloc(1);
+    const fd = openSync(path, "r");
+    try {
+      readSync(fd, last, 0, 1, size - 1);
+    } finally {
+      closeSync(fd);
+    }
+    if (last[0] === 0x0a) return;
+    truncateSync(path, readFileSync(path).lastIndexOf(0x0a) + 1);
+  }
+
+  private encode(value: unknown): StoredValue {
+    const [type, bytes] = this.serde.dumpsTyped(value);
+    const data = type === "bytes" ? Buffer.from(bytes).toString("base64") : new TextDecoder().decode(bytes);
+    return { type, data };
+  }
+
+  private async decode(value: StoredValue) {
+    const data = value.type === "bytes" ? new Uint8Array(Buffer.from(value.data, "base64")) : value.data;
+    return await this.serde.loadsTyped(value.type, data);
+  }
+
+  /**
+   * 组装 CheckpointTuple：还原检查点、元数据、挂起写入，以及父检查点下发的 Send 任务
+   */
+  private async toTuple(threadId: string, ns: string, checkpointId: string, thread: ThreadFile): Promise<CheckpointTuple> {
+    const saved = thread.checkpoints[ns][checkpointId];
+    const writes = Object.values(thread.writes[`${ns}|${checkpointId}`] ?? {});
+    const parentWrites = saved.parentId ? Object.values(thread.writes[`${ns}|${saved.parentId}`] ?? {}) : [];
+
+    const pending_sends = await Promise.all(
+      parentWrites.filter(([, channel]) => channel === TASKS).map(([, , value]) => this.decode(value))
+    );
+    const pendingWrites = await Promise.all(
+      writes.map(async ([taskId, channel, value]) => [taskId, channel, await this.decode(value)] as [string, string, unknown])
+    );
+
+    const tuple: CheckpointTuple = {
+      config: { configurable: { thread_id: threadId, checkpoint_ns: ns, checkpoint_id: checkpointId } },
+      checkpoint: { ...(await this.decode(saved.checkpoint)), pending_sends },
+      metadata: (await this.decode(saved.metadata)) as CheckpointMetadata,
+      pendingWrites,
+    };
+    if (saved.parentId) {
+      tuple.parentConfig = { configurable: { thread_id: threadId, checkpoint_ns: ns, checkpoint_id: saved.parentId } };
+    }
+    return tuple;
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    if (threadId === undefined) return undefined;
+    const ns = config.configurable?.checkpoint_ns ?? "";
+    const thread = this.loadThread(threadId);
+    const checkpoints = thread.checkpoints[ns];
+    if (!checkpoints) return undefined;
+
+    // 未指定 checkpoint_id 时取最新的一个（检查点 ID 按时间单调递增）
+    const checkpointId = config.configurable?.checkpoint_id ?? Object.keys(checkpoints).sort((a, b) => b.localeCompare(a))[0];
+    if (!checkpointId || !checkpoints[checkpointId]) return undefined;
+    return this.toTuple(threadId, ns, checkpointId, thread);
+  }
+
+  async *list(config: RunnableConfig, options?: ListOptions): AsyncGenerator<CheckpointTuple> {
+    const { before, filter } = options ?? {};
+    let limit = options?.limit;
+    const threadIds = config.configurable?.thread_id ? [config.configurable.thread_id as string] : this.listThreads().map((t) => t.threadId);
+    const configNs = config.configurable?.checkpoint_ns;
+    const configCheckpointId = config.configurable?.checkpoint_id;
+
+    for (const threadId of threadIds) {
+      const thread = this.loadThread(threadId);
+      for (const ns of Object.keys(thread.checkpoints)) {
+        if (configNs !== undefined && ns !== configNs) continue;
+        const ids = Object.keys(thread.checkpoints[ns]).sort((a, b) => b.localeCompare(a));
+        for (const checkpointId of ids) {
+          if (configCheckpointId && checkpointId !== configCheckpointId) continue;
+          if (before?.configurable?.checkpoint_id && checkpointId >= before.configurable.checkpoint_id) continue;
+          const tuple = await this.toTuple(threadId, ns, checkpointId, thread);
+          if (filter && !Object.entries(filter).every(([key, value]) => (tuple.metadata as any)?.[key] === value)) continue;
+          if (limit !== undefined) {
+            if (limit <= 0) return;
+            limit -= 1;
+          }
+          yield tuple;
+        }
+      }
+    }
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    if (threadId === undefined) {
+      throw new Error(`保存检查点失败：config.configurable 缺少 "thread_id"`);
+    }
+    const ns = config.configurable?.checkpoint_ns ?? "";
+    const prepared = copyCheckpoint(checkpoint);
+    delete (prepared as Partial<Checkpoint>).pending_sends;
+
+    const saved: StoredCheckpoint = {
+      checkpoint: this.encode(prepared),
+      metadata: this.encode(metadata),
+      parentId: config.configurable?.checkpoint_id,
+    };
+    await this.appendEntry(threadId, { type: "checkpoint", ns, id: checkpoint.id, saved });
+
+    return { configurable: { thread_id: threadId, checkpoint_ns: ns, checkpoint_id: checkpoint.id } };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (threadId === undefined || checkpointId === undefined) {
+      throw new Error(`保存写入失败：config.configurable 缺少 "thread_id" 或 "checkpoint_id"`);
+    }
+    const ns = config.configurable?.checkpoint_ns ?? "";
+    const key = `${ns}|${checkpointId}`;
+
+    const encoded = writes.map(
+      ([channel, value], idx) => [`${taskId},${WRITES_IDX_MAP[channel] ?? idx}`, [taskId, channel, this.encode(value)]] as [string, StoredWrite]
+    );
+    await this.appendEntry(threadId, { type: "writes", key, writes: encoded });
+  }
+
+  /**
+   * 列出所有线程，按最近更新时间倒序；损坏的线程文件报错后跳过
+   */
+  listThreads(): ThreadSummary[] {
+    if (!existsSync(this.dir)) return [];
+    const threadIds = new Set(
+      readdirSync(this.dir)
+        .filter((file) => file.endsWith(".jsonl") || file.endsWith(".json"))
+        .map((file) => decodeURIComponent(file.slice(0, file.lastIndexOf("."))))
+    );
+    return [...threadIds]
+      .flatMap((threadId) => {
+        try {
+          const thread = this.loadThread(threadId);
+          const checkpointCount = Object.values(thread.checkpoints).reduce((sum, ns) => sum + Object.keys(ns).length, 0);
+          const mtimes = [this.logPath(threadId), this.legacyPath(threadId)]
+            .filter((path) => existsSync(path))
+            .map((path) => statSync(path).mtimeMs);
+          return [{ threadId, updatedAt: new Date(Math.max(...mtimes)).toISOString(), checkpointCount }];
+        } catch (error) {
+          console.error(`[Checkpoint] ${error instanceof Error ? error.message : error}`);
+          return [];
+        }
+      })
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+}
+
+const savers = new Map<string, FileCheckpointSaver>();
+
+/**
+ * 获取某个智能体的检查点存储（同一命名空间复用同一实例）
+ */
+function getCheckpointer(namespace: string): FileCheckpointSaver {
+  let saver = savers.get(namespace);
+  if (!saver) {
+    const root = process.env.CHECKPOINT_DIR ?? join(process.cwd(), ".checkpoints");
+    const dir = join(root, namespace);
+    mkdirSync(dir, { recursive: true });
+    saver = new FileCheckpointSaver(dir);
+    savers.set(namespace, saver);
+  }
+  return saver;
+}
+
+/**
+ * 生成线程配置；不传 threadId 时新建一个线程
+ */
+function threadConfig(threadId: string = randomUUID()) {
+  return { configurable: { thread_id: threadId } };
+}
+
+/**
+ * 恢复或启动线程：
+ * - 线程存在且还有待执行的节点（上次中途崩溃），从最后一个检查点继续
+ * - 否则以 input 启动新的执行
+ */
+async function resumeOrInvoke<T>(
+  app: { getState(config: RunnableConfig): Promise<{ next: string[] }>; invoke(input: any, config?: RunnableConfig): Promise<T> },
+  input: unknown,
+  threadId?: string
+): Promise<T> {
+  const config = threadConfig(threadId);
+  const snapshot = await app.getState(config);
+  if (snapshot.next.length > 0) {
+    console.log(`♻️ [Checkpoint] 从线程 ${config.configurable.thread_id} 的最后一个检查点恢复，待执行: ${snapshot.next.join(", ")}`);
+    return app.invoke(null, config);
+  }
+  console.log(`🧵 [Checkpoint] 线程 ID: ${config.configurable.thread_id}（设置 THREAD_ID 可在中断后恢复）`);
+  return app.invoke(input, config);
+}
+
+export { FileCheckpointSaver, getCheckpointer, threadConfig, resumeOrInvoke };
+export type { ThreadSummary };
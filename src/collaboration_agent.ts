@@ -26,7 +26,9 @@
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
 import { HumanMessage, SystemMessage, BaseMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel } from "./model_provider";
+import { SYSTEM_PROMPTS } from "./agent_prompts";
+import { getCheckpointer, threadConfig } from "./checkpointer";
 
 // 定义状态：消息历史、下一个执行者
 const TeamState = Annotation.Root({
@@ -34,12 +36,7 @@ const TeamState = Annotation.Root({
   next: Annotation<string>({ reducer: (x, y) => y ?? x, default: () => "Supervisor" }),    // 下一个执行者（由 Supervisor 决定）
 });
 
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-const model = new ChatOpenAI({ ...CONFIG, temperature: 0.5 }); // 适中的创造性
+const model = createChatModel("collaboration", { temperature: 0.5 }); // 适中的创造性
 
 /**
  * 研究员节点：负责搜集信息和数据
@@ -48,7 +45,7 @@ const model = new ChatOpenAI({ ...CONFIG, temperature: 0.5 }); // 适中的创
 async function researcherNode(state: typeof TeamState.State) {
   console.log("🕵️ [Researcher] 正在搜集信息...");
   const lastMessage = state.messages[state.messages.length - 1];
-  const response = await model.invoke([new SystemMessage("你是一个研究员。请提供关于用户问题的准确数据。"), lastMessage]);
+  const response = await model.invoke([new SystemMessage(SYSTEM_PROMPTS.collaboration_researcher.text), lastMessage]);
   return { messages: [response] };
 }
 
@@ -59,7 +56,7 @@ async function researcherNode(state: typeof TeamState.State) {
 async function writerNode(state: typeof TeamState.State) {
   console.log("✍️ [Writer] 正在撰写文案...");
   const lastMessage = state.messages[state.messages.length - 1];
-  const response = await model.invoke([new SystemMessage("你是一个作家。请基于之前的研究结果，写一段优美的文字。"), lastMessage]);
+  const response = await model.invoke([new SystemMessage(SYSTEM_PROMPTS.collaboration_writer.text), lastMessage]);
   return { messages: [response] };
 }
 
@@ -73,8 +70,7 @@ async function writerNode(state: typeof TeamState.State) {
 async function supervisorNode(state: typeof TeamState.State) {
   console.log("👮 [Supervisor] 正在调度...");
   const { messages } = state;
-  const systemPrompt = `你是一个团队管理者。团队成员有: "Researcher", "Writer"。\n规则:\n1. 如果用户的问题需要事实支撑，先让 "Researcher" 工作。\n2. 有了资料后，让 "Writer" 进行写作。\n3. 如果写作已完成且质量尚可，回复 "FINISH"。\n只返回一个单词: "Researcher", "Writer", 或 "FINISH"。`;
-  const response = await model.invoke([new SystemMessage(systemPrompt), ...messages]);
+  const response = await model.invoke([new SystemMessage(SYSTEM_PROMPTS.collaboration_supervisor.text), ...messages]);
   const decision = response.content.toString().trim().replace(/['"]/g, '');
   console.log(`👮 决策: ${decision}`);
   return { next: decision };
@@ -109,13 +105,20 @@ const workflow = new StateGraph(TeamState)
   .addEdge("researcher", "supervisor")     // 成员完成后返回监督者
   .addEdge("writer", "supervisor");
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("collaboration") });
+
+// 导出 app 供服务器使用
+export { app, TeamState };
 
 async function main() {
   const task = "请帮我写一段关于'量子计算'的简短介绍，风格要科幻一点。";
   console.log(`🚀 开始团队协作任务: ${task}`);
-  const result = await app.invoke({ messages: [new HumanMessage(task)] });
+  const result = await app.invoke({ messages: [new HumanMessage(task)] }, threadConfig());
   const lastMsg = result.messages[result.messages.length - 1];
   console.log("\n====== 最终产出 ======\n" + lastMsg.content);
 }
-main().catch(console.error);
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}
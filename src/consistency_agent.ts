@@ -25,7 +25,8 @@
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
 import { HumanMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel } from "./model_provider";
+import { getCheckpointer, threadConfig } from "./checkpointer";
 
 // 定义状态：问题、多个样本答案、最终答案
 const ConsistencyState = Annotation.Root({
@@ -34,12 +35,7 @@ const ConsistencyState = Annotation.Root({
   finalAnswer: Annotation<string>,                                                 // 投票后的最终答案
 });
 
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-const model = new ChatOpenAI({ ...CONFIG, temperature: 1.0 }); // 高 temperature 增加答案多样性
+const model = createChatModel("consistency", { temperature: 1.0 }); // 高 temperature 增加答案多样性
 
 /**
  * 采样节点：并行生成多个独立答案
@@ -79,11 +75,18 @@ const workflow = new StateGraph(ConsistencyState)
   .addEdge("sample", "vote")
   .addEdge("vote", END);
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("consistency") });
+
+// 导出 app 供服务器使用
+export { app, ConsistencyState };
 
 async function main() {
   const question = "农场里有鸡和兔子共 35 个头，94 只脚。请问鸡和兔子各多少只？";
-  const result = await app.invoke({ question });
+  const result = await app.invoke({ question }, threadConfig());
   console.log("\n====== 多数投票结果 ======\n" + result.finalAnswer);
 }
-main().catch(console.error);
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,303 @@
+/**
+ * 经验库 (Experience Store)
+ *
+ * 功能概述：
+ * 保存学习智能体从任务中总结出的经验，按与新任务的语义相似度召回最相关的几条，并合并重复的经验；
+ * 根据用户对回答的反馈调整经验得分，淘汰反复导致差评的经验。
+ *
+ * 设计要点：
+ * 1. 结构化记录：每条经验带 ID、来源任务、时间戳、被召回次数、置信度和反馈统计
+ * 2. 版本化存储：文件格式带 version 字段，加载时自动从旧格式迁移并写回
+ *    - v0：字符串数组 ["经验1: ...", ...]
+ *    - v1：{ "experiences": ["...", ...] }
+ *    - v2：{ "version": 2, "experiences": [...] }，记录不含反馈统计
+ *    - v3（当前）：记录增加 helpful / unhelpful / score / retiredAt
+ * 3. 语义召回：复用 RAG 的 embedding 实现，只取 top-k；向量不落盘（文件保持可读、可手工编辑），进程内按文本缓存
+ * 4. 去重合并：新经验与已有经验相似度超过 DUPLICATE_THRESHOLD 时合并为一条，重复出现的经验置信度提高
+ * 5. 反馈评分：score = (好评 + 1) / (好评 + 差评 + 2)，初始 0.5；召回时按 相似度 × (0.5 + score) 排序
+ * 6. 淘汰：差评达到 RETIRE_MIN_UNHELPFUL 次且 score 低于 RETIRE_SCORE 时标记 retiredAt，不再参与召回；
+ *    之后再总结出相同的经验也不会重新加入
+ * 7. 并发安全：多个进程或请求可以共享同一个经验库
+ *    - 每次修改都在文件锁内 "重新读取 -> 合并修改 -> 原子写回"，不会覆盖其他写入者刚写入的经验
+ *    - 只读操作不加锁；旧格式只在内存中迁移，等到下一次修改时写回
+ *    - embedding 全部在加锁前完成，持锁期间只用缓存的向量，远程 embedding 较慢时也不会长时间占用锁；
+ *      加锁前后之间其他进程新加入的经验还没有向量，本次去重和召回暂不考虑它们
+ *    - 文件损坏（如手工编辑到一半）时直接报错，不会用空经验库覆盖原文件
+ *    - 已评价的线程 ID 记录在 ratedThreads 中，与加减分在同一次加锁修改内完成，并发提交的重复评价只生效一次
+ *
+ * 环境变量：
+ * - EXPERIENCE_DB_PATH：经验库文件（默认 ./assets/experience_db.json）
+ */
+
+import { randomUUID } from "crypto";
+import { join, resolve } from "path";
+import { cosine, createEmbeddings, type EmbeddingProvider } from "./rag_embeddings";
+import { readJsonFileStrict, withFileLock, writeJsonAtomic } from "./json_file";
+
+type ExperienceRecord = {
+  id: string;
+  insight: string;
+  sourceTask?: string;  // 总结出该经验的任务；从旧格式迁移的经验没有来源
+  createdAt: string;
+  updatedAt: string;
+  usageCount: number;   // 被召回用于执行任务的次数
+  confidence: number;   // 0-1，重复总结出同一经验时提高
+  helpful: number;      // 使用该经验的回答收到的好评数
+  unhelpful: number;    // 使用该经验的回答收到的差评数
+  score: number;        // 反馈得分（0-1）
+  retiredAt?: string;   // 被淘汰的时间；淘汰后不再召回
+};
+
+type ExperienceFile = {
+  version: typeof EXPERIENCE_DB_VERSION;
+  experiences: ExperienceRecord[];
+  ratedThreads?: string[]; // 已提交过反馈的线程 ID，每个线程只能评价一次
+};
+
+type ExperienceRecallResult = {
+  experience: ExperienceRecord;
+  similarity: number; // 与任务的余弦相似度
+  score: number;      // 排序依据：相似度按反馈得分加权
+};
+
+const EXPERIENCE_DB_VERSION = 3;
+
+// 相似度超过该值视为同一条经验
+const DUPLICATE_THRESHOLD = 0.85;
+// 从旧格式迁移或未给出置信度时的默认值
+const DEFAULT_CONFIDENCE = 0.5;
+// 合并重复经验时置信度的增量
+const CONFIDENCE_BOOST = 0.1;
+// 淘汰条件：至少收到这么多次差评，且反馈得分低于阈值
+const RETIRE_MIN_UNHELPFUL = 3;
+const RETIRE_SCORE = 0.3;
+
+const defaultExperiencePath = () =>
+  resolve(process.env.EXPERIENCE_DB_PATH ?? join(process.cwd(), "assets/experience_db.json"));
+
+const clampConfidence = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const feedbackScore = (helpful: number, unhelpful: number) => (helpful + 1) / (helpful + unhelpful + 2);
+
+const isActive = (experience: ExperienceRecord) => !experience.retiredAt;
+
+// 旧格式的经验带有 "经验1:"、"新经验: 经验：" 之类的前缀，迁移时去掉
+const stripLegacyPrefix = (text: string) => text.replace(/^(?:\s*(?:新经验|经验\d*)\s*[:：]\s*)+/, "").trim();
+
+/**
+ * 把任意历史格式的文件内容迁移为当前格式：先统一为 v2 的记录，再补齐 v3 的反馈字段
+ * @returns 迁移后的内容，以及原始版本号（与当前版本相同表示无需迁移）
+ */
+function migrate(raw: unknown): { file: ExperienceFile; fromVersion: number } {
+  const now = new Date().toISOString();
+  const fromStrings = (items: unknown[]) =>
+    items
+      .filter((item): item is string => typeof item === "string" && !!stripLegacyPrefix(item))
+      .map((item) => ({
+        id: randomUUID(),
+        insight: stripLegacyPrefix(item),
+        createdAt: now,
+        updatedAt: now,
+        usageCount: 0,
+        confidence: DEFAULT_CONFIDENCE,
+      }));
+
+  const object = raw as { version?: number; experiences?: unknown[] } | null;
+  let fromVersion: number;
+  let records: Omit<ExperienceRecord, "helpful" | "unhelpful" | "score">[];
+  if (Array.isArray(raw)) {
+    fromVersion = 0;
+    records = fromStrings(raw);
+  } else if (!object || typeof object !== "object" || !Array.isArray(object.experiences)) {
+    return { file: { version: EXPERIENCE_DB_VERSION, experiences: [] }, fromVersion: EXPERIENCE_DB_VERSION };
+  } else if (object.version === EXPERIENCE_DB_VERSION) {
+    return { file: object as ExperienceFile, fromVersion: EXPERIENCE_DB_VERSION };
+  } else if (object.version === undefined) {
+    fromVersion = 1;
+    records = fromStrings(object.experiences);
+  } else if (object.version === 2) {
+    fromVersion = 2;
+    records = object.experiences as typeof records;
+  } else {
+    throw new Error(`不支持的经验库版本：${object.version}（当前版本 ${EXPERIENCE_DB_VERSION}）`);
+  }
+
+  // v2 -> v3：补齐反馈统计
+  const experiences = records.map((record) => ({ ...record, helpful: 0, unhelpful: 0, score: feedbackScore(0, 0) }));
+  return { file: { version: EXPERIENCE_DB_VERSION, experiences }, fromVersion };
+}
+
+class ExperienceStore {
+  private path: string;
+  private provider: EmbeddingProvider;
+  private vectors = new Map<string, number[]>(); // insight -> 向量
+
+  constructor(path = defaultExperiencePath(), provider = createEmbeddings()) {
+    this.path = path;
+    this.provider = provider;
+  }
+
+  /**
+   * 读取经验库（旧格式在内存中迁移为当前格式）；文件损坏时抛出异常
+   */
+  private read() {
+    return migrate(readJsonFileStrict<unknown>(this.path, { experiences: [] }));
+  }
+
+  /**
+   * 在文件锁内读取最新内容、执行修改并写回；mutate 返回 changed: false 时不写文件
+   */
+  private update<T>(mutate: (file: ExperienceFile) => Promise<{ result: T; changed: boolean }>): Promise<T> {
+    return withFileLock(this.path, async () => {
+      const { file, fromVersion } = this.read();
+      if (fromVersion !== EXPERIENCE_DB_VERSION) {
+        console.log(`[Experience] 经验库从 v${fromVersion} 迁移到 v${EXPERIENCE_DB_VERSION}（${file.experiences.length} 条）`);
+      }
+      const { result, changed } = await mutate(file);
+      if (changed || fromVersion !== EXPERIENCE_DB_VERSION) writeJsonAtomic(this.path, file);
+      return result;
+    });
+  }
+
+  private async embed(texts: string[]): Promise<number[][]> {
+    const missing = [...new Set(texts.filter((text) => !this.vectors.has(text)))];
+    if (missing.length > 0) {
+      const vectors = await this.provider.embeddings.embedDocuments(missing);
+      missing.forEach((text, i) => this.vectors.set(text, vectors[i]));
+    }
+    return texts.map((text) => this.vectors.get(text)!);
+  }
+
+  /**
+   * 为经验库中当前所有经验计算向量（在加锁前调用，锁内只读取缓存）
+   */
+  private async embedAll(): Promise<void> {
+    await this.embed(this.read().file.experiences.map((e) => e.insight));
+  }
+
+  /**
+   * 经验及其缓存的向量；没有缓存向量的经验（加锁前之后才被其他进程加入）被跳过
+   */
+  private withVectors(experiences: ExperienceRecord[]) {
+    return experiences.flatMap((experience) => {
+      const vector = this.vectors.get(experience.insight);
+      return vector ? [{ experience, vector }] : [];
+    });
+  }
+
+  /**
+   * 列出经验；默认不含已淘汰的经验
+   */
+  list(includeRetired = false): ExperienceRecord[] {
+    const { experiences } = this.read().file;
+    return includeRetired ? experiences : experiences.filter(isActive);
+  }
+
+  /**
+   * 添加经验；与已有经验重复时合并到那一条（采用新的表述，置信度提高）
+   * 与已淘汰的经验重复时不做修改，直接返回那条已淘汰的经验
+   * @returns 新增或被合并的经验，以及是否发生了合并
+   */
+  async add(
+    insight: string,
+    options: { sourceTask?: string; confidence?: number } = {}
+  ): Promise<{ experience: ExperienceRecord; merged: boolean }> {
+    const [vector] = await this.embed([insight]);
+    await this.embedAll();
+    const confidence = clampConfidence(options.confidence ?? DEFAULT_CONFIDENCE);
+
+    return this.update<{ experience: ExperienceRecord; merged: boolean }>(async (file) => {
+      const now = new Date().toISOString();
+      const duplicate = this.withVectors(file.experiences)
+        .map(({ experience, vector: existing }) => ({ experience, score: cosine(vector, existing) }))
+        .filter(({ score }) => score >= DUPLICATE_THRESHOLD)
+        .sort((a, b) => b.score - a.score)[0];
+      if (duplicate) {
+        const { experience } = duplicate;
+        if (!isActive(experience)) return { result: { experience, merged: true }, changed: false };
+        Object.assign(experience, {
+          insight,
+          sourceTask: options.sourceTask ?? experience.sourceTask,
+          confidence: clampConfidence(Math.max(experience.confidence, confidence) + CONFIDENCE_BOOST),
+          updatedAt: now,
+        });
+        return { result: { experience, merged: true }, changed: true };
+      }
+
+      const experience: ExperienceRecord = {
+        id: randomUUID(),
+        insight,
+        sourceTask: options.sourceTask,
+        createdAt: now,
+        updatedAt: now,
+        usageCount: 0,
+        confidence,
+        helpful: 0,
+        unhelpful: 0,
+        score: feedbackScore(0, 0),
+      };
+      file.experiences.push(experience);
+      return { result: { experience, merged: false }, changed: true };
+    });
+  }
+
+  /**
+   * 召回与任务最相关的 top-k 条未淘汰经验，并累加它们的使用次数
+   * 相似度低于 minSimilarity 的经验不参与排序；排序按反馈得分加权，好评多的经验优先
+   */
+  async recall(task: string, k = 3, minSimilarity = 0.1): Promise<ExperienceRecallResult[]> {
+    const [queryVector] = await this.embed([task]);
+    await this.embedAll();
+    return this.update(async (file) => {
+      const results = this.withVectors(file.experiences.filter(isActive))
+        .map(({ experience, vector }) => {
+          const similarity = cosine(queryVector, vector);
+          return { experience, similarity, score: similarity * (0.5 + experience.score) };
+        })
+        .filter(({ similarity }) => similarity >= minSimilarity)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k);
+      results.forEach(({ experience }) => (experience.usageCount += 1));
+      return { result: results, changed: results.length > 0 };
+    });
+  }
+
+  /**
+   * 记录一次反馈：更新这些经验的好评/差评数和得分，满足淘汰条件的经验被淘汰
+   * 给出 threadId 时每个线程只计一次：该线程已评价过则不做修改，返回 undefined
+   * @returns 更新后的经验（不存在的 ID 被忽略）
+   */
+  feedback(ids: string[], helpful: boolean, threadId?: string): Promise<ExperienceRecord[] | undefined> {
+    return this.update<ExperienceRecord[] | undefined>(async (file) => {
+      if (threadId && file.ratedThreads?.includes(threadId)) return { result: undefined, changed: false };
+      if (threadId) file.ratedThreads = [...(file.ratedThreads ?? []), threadId];
+
+      const now = new Date().toISOString();
+      const updated = file.experiences.filter((e) => ids.includes(e.id));
+      for (const experience of updated) {
+        if (helpful) experience.helpful += 1;
+        else experience.unhelpful += 1;
+        experience.score = feedbackScore(experience.helpful, experience.unhelpful);
+        experience.updatedAt = now;
+        if (isActive(experience) && experience.unhelpful >= RETIRE_MIN_UNHELPFUL && experience.score < RETIRE_SCORE) {
+          experience.retiredAt = now;
+          console.log(`[Experience] 经验 "${experience.insight}" 多次导致差评（得分 ${experience.score.toFixed(2)}），已淘汰`);
+        }
+      }
+      return { result: updated, changed: updated.length > 0 || !!threadId };
+    });
+  }
+}
+
+let sharedStore: ExperienceStore | undefined;
+
+/**
+ * 获取进程内共享的经验库
+ */
+function getExperienceStore(): ExperienceStore {
+  sharedStore ??= new ExperienceStore();
+  return sharedStore;
+}
+
+export { ExperienceStore, getExperienceStore, EXPERIENCE_DB_VERSION };
+export type { ExperienceRecord, ExperienceRecallResult };
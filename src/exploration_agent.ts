@@ -26,7 +26,9 @@
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
 import { HumanMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel } from "./model_provider";
+import { getCheckpointer, threadConfig } from "./checkpointer";
+import { invokeStructured, schema } from "./structured_output";
 
 // 定义状态：领域、假设列表、发现列表、最终报告
 const ExplorationState = Annotation.Root({
@@ -36,27 +38,23 @@ const ExplorationState = Annotation.Root({
   finalReport: Annotation<string>,                                                 // 最终报告
 });
 
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-const model = new ChatOpenAI({ ...CONFIG, temperature: 0.8 }); // 高 temperature 鼓励创新性假设
+const model = createChatModel("exploration", { temperature: 0.8 }); // 高 temperature 鼓励创新性假设
+
+// 假设生成的输出结构：假设字符串数组
+const HypothesesSchema = schema.array(schema.string({ description: "假设" }), { min: 1, max: 5 });
 
 /**
  * 假设生成节点：针对领域提出创新性假设
  * 设计要点：
- * - 使用 JSON 格式返回，便于解析
+ * - 按 HypothesesSchema 输出 JSON 数组，格式不对时自动要求模型修正（见 structured_output.ts）
  * - 要求假设具有创新性和探索性
  */
 async function hypothesisNode(state: typeof ExplorationState.State) {
   const { domain } = state;
   console.log(`\n💡 [Explorer] 正在对 "${domain}" 领域提出假设...`);
-  const prompt = `你是一个前沿研究员。针对领域 "${domain}"，请提出 2 个具有创新性、大胆的假设或研究方向。\n格式：JSON字符串数组，如 ["假设A...", "假设B..."]`;
-  const res = await model.invoke([new HumanMessage(prompt)]);
-  const text = res.content.toString().replace(/```json|```/g, "").trim();
-  const hypotheses = JSON.parse(text);
-  console.log(`   生成的假设: \n   1. ${hypotheses[0]}\n   2. ${hypotheses[1]}`);
+  const prompt = `你是一个前沿研究员。针对领域 "${domain}"，请提出 2 个具有创新性、大胆的假设或研究方向。`;
+  const hypotheses = await invokeStructured(model, prompt, HypothesesSchema, { label: "假设生成" });
+  console.log(`   生成的假设: \n${hypotheses.map((h, i) => `   ${i + 1}. ${h}`).join("\n")}`);
   return { hypotheses };
 }
 
@@ -100,10 +98,17 @@ const workflow = new StateGraph(ExplorationState)
   .addEdge("experiment", "report_gen")
   .addEdge("report_gen", END);
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("exploration") });
+
+// 导出 app 供服务器使用
+export { app, ExplorationState };
 
 async function main() {
-  const result = await app.invoke({ domain: "火星上的微生物生命存在形式" });
+  const result = await app.invoke({ domain: "火星上的微生物生命存在形式" }, threadConfig());
   console.log("\n====== 探索报告 ======\n" + result.finalReport);
 }
-main().catch(console.error);
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -25,7 +25,8 @@
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
 import { HumanMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel } from "./model_provider";
+import { getCheckpointer, threadConfig } from "./checkpointer";
 
 // 定义状态：输入、原始响应、安全状态、最终输出
 const SafetyState = Annotation.Root({
@@ -35,12 +36,7 @@ const SafetyState = Annotation.Root({
   finalOutput: Annotation<string>,             // 最终输出（清理后或原始）
 });
 
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-const model = new ChatOpenAI({ ...CONFIG, temperature: 0.7 }); // 适中的创造性
+const model = createChatModel("guardrails", { temperature: 0.7 }); // 适中的创造性
 
 /**
  * 生成节点：生成原始响应
@@ -106,11 +102,18 @@ const workflow = new StateGraph(SafetyState)
   .addEdge("sanitize", END)
   .addEdge("pass", END);
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("guardrails") });
+
+// 导出 app 供服务器使用
+export { app, SafetyState };
 
 async function main() {
   const input = "请帮我编一个故事，里面包含主角的电话号码是 13800138000，并且他在大骂邻居。";
-  const result = await app.invoke({ input });
+  const result = await app.invoke({ input }, threadConfig());
   console.log("\n====== 最终输出 ======\n" + result.finalOutput);
 }
-main().catch(console.error);
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}
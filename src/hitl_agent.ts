@@ -6,10 +6,11 @@
  * AI 生成内容后，等待人类审核，根据反馈进行修改或批准。
  * 
  * 设计要点：
- * 1. 人工介入：在关键节点暂停，等待人类输入
- * 2. 反馈循环：根据反馈修改，直到获得批准
- * 3. 质量控制：通过人工审核确保输出质量
- * 4. 工作流模式：Start -> Write -> Human -> [Write (循环) | Send] -> End
+ * 1. 人工介入：审核节点调用 interrupt() 暂停图的执行，草稿作为中断值交给外部
+ * 2. 异步恢复：检查点持久化线程状态，人类可以在终端或 HTTP 接口中、数小时后再用 Command({ resume }) 提交反馈
+ * 3. 反馈循环：根据反馈修改，直到获得批准
+ * 4. 质量控制：通过人工审核确保输出质量
+ * 5. 工作流模式：Start -> Write -> Human (interrupt) -> [Write (循环) | Send] -> End
  * 
  * 适用场景：
  * - 内容审核流程（AI 生成，人工审核）
@@ -19,9 +20,10 @@
  */
 
 import "dotenv/config";
-import { Annotation, StateGraph, END } from "@langchain/langgraph";
+import { Annotation, StateGraph, END, Command, interrupt } from "@langchain/langgraph";
 import { HumanMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel } from "./model_provider";
+import { getCheckpointer, threadConfig } from "./checkpointer";
 import * as readline from "readline";
 
 // 定义状态：任务、草稿、人类反馈、最终结果
@@ -32,12 +34,7 @@ const HitlState = Annotation.Root({
   finalResult: Annotation<string>, // 最终结果
 });
 
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-const model = new ChatOpenAI({ ...CONFIG, temperature: 0.7 }); // 适中的创造性
+const model = createChatModel("hitl", { temperature: 0.7 }); // 适中的创造性
 
 /**
  * 写作节点：根据任务生成草稿，或根据反馈修改草稿
@@ -61,51 +58,37 @@ async function writeNode(state: typeof HitlState.State) {
 }
 
 /**
- * 从终端读取用户输入
+ * 审核请求：中断时交给外部（终端或 HTTP 审核页面）的内容
  */
-function readUserInput(question: string): Promise<string> {
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
-
-  return new Promise((resolve) => {
-    rl.question(question, (answer) => {
-      rl.close();
-      resolve(answer.trim());
-    });
-  });
+type ReviewRequest = {
+  task: string;
+  draft: string;
+};
+
+/**
+ * 规范化人类反馈：
+ * - "approve"/"ok"（不区分大小写）视为批准
+ * - 空反馈默认要求修改
+ */
+function normalizeFeedback(raw: unknown): string {
+  const feedback = typeof raw === "string" ? raw.trim() : "";
+  if (feedback.toLowerCase() === "approve" || feedback.toLowerCase() === "ok") return "approve";
+  return feedback || "请修改";
 }
 
 /**
- * 人类审核节点：等待真实人类输入反馈
+ * 人类审核节点：通过 interrupt 等待人类反馈
  * 设计要点：
- * - 显示完整草稿内容供用户审核
- * - 等待用户在终端输入反馈
- * - 反馈格式：可以是修改建议（字符串）或 "approve"/"ok"（批准）
+ * - 首次执行时 interrupt() 抛出中断，图暂停并把草稿保存在检查点中
+ * - 恢复时（Command({ resume: 反馈 })）节点从头重新执行，interrupt() 直接返回反馈值
+ * - 节点内不要有其他副作用，因为恢复时会重新执行
  */
 async function humanReviewNode(state: typeof HitlState.State) {
-  console.log("\n" + "=".repeat(60));
-  console.log("🛑 [Human Review] 请审核以下草稿：");
-  console.log("=".repeat(60));
-  console.log(state.draft);
-  console.log("=".repeat(60));
-  
-  const feedback = await readUserInput(
-    "\n👤 请输入反馈（输入修改建议，或输入 'approve'/'ok' 批准）: "
-  );
-
-  if (feedback.toLowerCase() === "approve" || feedback.toLowerCase() === "ok") {
-    console.log("✅ 已批准！");
-    return { feedback: "approve" };
-  } else if (feedback) {
-    console.log(`📝 收到反馈: ${feedback}`);
-    return { feedback };
-  } else {
-    // 如果用户直接回车，默认要求修改
-    console.log("⚠️  未输入反馈，默认要求修改。");
-    return { feedback: "请修改" };
-  }
+  const review: ReviewRequest = { task: state.task, draft: state.draft };
+  const feedback = normalizeFeedback(interrupt(review));
+  if (feedback === "approve") console.log("✅ 已批准！");
+  else console.log(`📝 收到反馈: ${feedback}`);
+  return { feedback };
 }
 
 /**
@@ -136,7 +119,7 @@ function router(state: typeof HitlState.State) {
  */
 const hitlWorkflow = new StateGraph(HitlState)
   .addNode("writer", writeNode)              // 写作/修改节点
-  .addNode("human", humanReviewNode)        // 人工审核节点（从终端读取输入）
+  .addNode("human", humanReviewNode)        // 人工审核节点（interrupt 暂停，等待反馈）
   .addNode("sender", sendNode)              // 发送节点
   .addEdge("__start__", "writer")            // 启动写作
   .addEdge("writer", "human")                 // 写作完成后等待审核
@@ -146,6 +129,60 @@ const hitlWorkflow = new StateGraph(HitlState)
   })
   .addEdge("sender", END);                    // 完成
 
-const app = hitlWorkflow.compile();
-async function main() { await app.invoke({ task: "向老板请假去滑雪" }); }
-main().catch(console.error);
+const app = hitlWorkflow.compile({ checkpointer: getCheckpointer("hitl") });
+
+// 导出 app 供服务器使用
+export { app, HitlState, getPendingReview };
+export type { ReviewRequest };
+
+/**
+ * 从终端读取一行用户输入；输入流结束时返回 undefined
+ */
+async function readUserInput(lines: AsyncIterator<string>, question: string): Promise<string | undefined> {
+  process.stdout.write(question);
+  const { value, done } = await lines.next();
+  return done ? undefined : value.trim();
+}
+
+/**
+ * 取出线程中等待处理的审核请求；没有则返回 undefined
+ */
+async function getPendingReview(config: ReturnType<typeof threadConfig>): Promise<ReviewRequest | undefined> {
+  const snapshot = await app.getState(config);
+  const pending = snapshot.tasks.flatMap((task) => task.interrupts);
+  return pending.length > 0 ? (pending[0].value as ReviewRequest) : undefined;
+}
+
+/**
+ * 终端审核：每次中断时展示草稿并读取反馈，再用 Command 恢复线程
+ */
+async function main() {
+  const config = threadConfig();
+  await app.invoke({ task: "向老板请假去滑雪" }, config);
+
+  const rl = readline.createInterface({ input: process.stdin, crlfDelay: Infinity });
+  const lines = rl[Symbol.asyncIterator]();
+
+  let review = await getPendingReview(config);
+  while (review) {
+    console.log("\n" + "=".repeat(60));
+    console.log("🛑 [Human Review] 请审核以下草稿：");
+    console.log("=".repeat(60));
+    console.log(review.draft);
+    console.log("=".repeat(60));
+
+    const feedback = await readUserInput(lines, "\n👤 请输入反馈（输入修改建议，或输入 'approve'/'ok' 批准）: ");
+    if (feedback === undefined) {
+      console.log(`\n⏸️ 输入已结束，线程 ${config.configurable.thread_id} 保持待审核状态，可通过 HTTP 审核接口继续。`);
+      break;
+    }
+    await app.invoke(new Command({ resume: feedback }), config);
+    review = await getPendingReview(config);
+  }
+  rl.close();
+}
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}
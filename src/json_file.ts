@@ -0,0 +1,160 @@
+/**
+ * JSON 文件读写工具
+ *
+ * 设计要点：
+ * - 原子写入：先写临时文件再 rename，进程在写入中途崩溃也不会留下半截 JSON
+ * - 读取容错：readJsonFile 在文件不存在或内容损坏时返回调用方提供的默认值；
+ *   readJsonFileStrict 只在文件不存在时返回默认值，内容损坏时抛出异常（读取后要写回的文件应使用它，避免用默认值覆盖原文件）
+ * - 文件锁：withFileLock 用 <file>.lock 独占创建实现跨进程互斥，同一进程内的调用先排队；
+ *   持锁进程已退出或锁文件超过 LOCK_STALE_MS 未释放时视为残留锁：先把它 rename 成唯一的文件名再确认是同一个锁文件（inode 相同），
+ *   多个进程同时判定为残留时只有一个能接管，不会删掉别的进程刚创建的新锁；释放时也只删除自己创建的锁文件
+ */
+
+import { randomUUID } from "crypto";
+import { closeSync, existsSync, fstatSync, linkSync, mkdirSync, openSync, readFileSync, renameSync, rmSync, statSync, writeFileSync, writeSync } from "fs";
+import { dirname } from "path";
+
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 30_000;
+
+// 进程内的锁队列：lockPath -> 队尾
+const lockQueues = new Map<string, Promise<void>>();
+
+function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!existsSync(filePath)) return fallback;
+  try {
+    return JSON.parse(readFileSync(filePath, "utf-8")) as T;
+  } catch (error) {
+    console.error(`读取 JSON 文件失败: ${filePath}`, error);
+    return fallback;
+  }
+}
+
+function readJsonFileStrict<T>(filePath: string, fallback: T): T {
+  if (!existsSync(filePath)) return fallback;
+  try {
+    return JSON.parse(readFileSync(filePath, "utf-8")) as T;
+  } catch (error) {
+    throw new Error(`JSON 文件已损坏，请检查或手动删除后重试: ${filePath}（${error instanceof Error ? error.message : error}）`);
+  }
+}
+
+function writeJsonAtomic(filePath: string, data: unknown): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(data, null, 2), "utf-8");
+  renameSync(tempPath, filePath);
+}
+
+/**
+ * 锁文件是否为残留：持锁进程已不存在（同一台机器），或长时间未释放
+ * @returns 残留锁文件的 inode；不是残留锁时返回 undefined
+ */
+function staleLockInode(lockPath: string): number | undefined {
+  try {
+    const { ino, mtimeMs } = statSync(lockPath);
+    if (Date.now() - mtimeMs > LOCK_STALE_MS) return ino;
+    const pid = Number(readFileSync(lockPath, "utf-8"));
+    if (!Number.isInteger(pid) || pid <= 0) return undefined; // 刚创建、还没写入 PID
+    try {
+      process.kill(pid, 0); // 只检查进程是否存在，不发送信号
+      return undefined;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === "ESRCH" ? ino : undefined;
+    }
+  } catch {
+    return undefined; // 锁文件已被删除（ENOENT）时交给下一次重试
+  }
+}
+
+/**
+ * 接管残留锁：rename 是原子操作，同一个锁文件只有一个进程能移走；
+ * 移走的如果不是判定为残留的那个文件（其他进程已接管并创建了新锁），用 link 放回原处（目标已存在时不覆盖）
+ * @returns 是否移除了残留锁
+ */
+function removeStaleLock(lockPath: string, staleInode: number): boolean {
+  const claimedPath = `${lockPath}.${process.pid}.${randomUUID()}.stale`;
+  try {
+    renameSync(lockPath, claimedPath);
+  } catch {
+    return false; // 已被其他进程移走
+  }
+  const removed = statSync(claimedPath).ino === staleInode;
+  if (!removed) {
+    try {
+      linkSync(claimedPath, lockPath);
+    } catch {
+      // 原位置已有新的锁文件
+    }
+  }
+  rmSync(claimedPath, { force: true });
+  return removed;
+}
+
+/**
+ * 获取锁
+ * @returns 锁文件的 inode，释放时据此确认锁文件仍是自己创建的
+ */
+async function acquireLock(lockPath: string): Promise<number> {
+  mkdirSync(dirname(lockPath), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      const fd = openSync(lockPath, "wx");
+      try {
+        writeSync(fd, String(process.pid));
+        return fstatSync(fd).ino;
+      } finally {
+        closeSync(fd);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+    const staleInode = staleLockInode(lockPath);
+    if (staleInode !== undefined && removeStaleLock(lockPath, staleInode)) {
+      console.log(`[Lock] 清除残留的锁文件: ${lockPath}`);
+      continue;
+    }
+    if (Date.now() > deadline) throw new Error(`获取文件锁超时: ${lockPath}`);
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+/**
+ * 释放锁：锁文件已被当作残留锁接管时不删除别人的新锁
+ */
+function releaseLock(lockPath: string, inode: number): void {
+  try {
+    if (statSync(lockPath).ino === inode) rmSync(lockPath, { force: true });
+  } catch {
+    // 锁文件已不存在
+  }
+}
+
+/**
+ * 持有文件锁执行 fn（读取 -> 修改 -> 写回 应整体放在 fn 中，避免并发写入互相覆盖）
+ */
+async function withFileLock<T>(filePath: string, fn: () => T | Promise<T>): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const previous = lockQueues.get(lockPath) ?? Promise.resolve();
+  let release!: () => void;
+  const current = new Promise<void>((resolve) => (release = resolve));
+  const tail = previous.then(() => current);
+  lockQueues.set(lockPath, tail);
+
+  await previous;
+  try {
+    const inode = await acquireLock(lockPath);
+    try {
+      return await fn();
+    } finally {
+      releaseLock(lockPath, inode);
+    }
+  } finally {
+    release();
+    if (lockQueues.get(lockPath) === tail) lockQueues.delete(lockPath);
+  }
+}
+
+export { readJsonFile, readJsonFileStrict, writeJsonAtomic, withFileLock };
@@ -6,11 +6,12 @@
  * 实现持续学习和改进的智能系统。
  * 
  * 设计要点：
- * 1. 经验检索：执行前从经验库中检索相关经验
+ * 1. 经验检索：执行前按语义相似度从经验库中召回最相关的 RECALL_K 条经验（见 experience_store.ts）
  * 2. 经验应用：将经验作为 prompt 的一部分，指导任务执行
- * 3. 经验学习：任务完成后自动提取新经验
- * 4. 经验累积：新经验自动添加到经验库
- * 5. 工作流模式：Start -> Recall -> Act -> Learn -> End
+ * 3. 经验学习：任务完成后让模型总结一条经验并给出置信度，没有值得记录的内容时跳过
+ * 4. 经验累积：新经验写入版本化的经验库，与已有经验重复时合并而不是重复追加
+ * 5. 结果反馈：用户对回答评价（CLI 提问或 HTTP 接口），本次召回的经验据此加减分，反复导致差评的经验被淘汰
+ * 6. 工作流模式：Start -> Recall -> Act -> Learn -> End，反馈在执行结束后通过 recordFeedback 写入
  * 
  * 适用场景：
  * - 个性化助手（学习用户偏好）
@@ -18,82 +19,53 @@
  * - 知识积累（逐步建立知识库）
  * 
  * 扩展方向：
- * - 使用向量数据库存储和检索经验
- * - 实现经验的重要性评分和淘汰机制
  * - 支持经验的版本管理和冲突解决
  */
 
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
 import { HumanMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
-import { readFileSync, writeFileSync, mkdirSync } from "fs";
-import { join, dirname } from "path";
+import { createChatModel } from "./model_provider";
+import { getCheckpointer, threadConfig } from "./checkpointer";
+import { getExperienceStore, type ExperienceRecallResult, type ExperienceRecord } from "./experience_store";
 import * as readline from "readline";
 
-// 经验数据库文件路径（相对于项目根目录）
-const EXPERIENCE_DB_PATH = join(process.cwd(), "assets/experience_db.json");
+const RECALL_K = 3; // 每个任务最多召回的经验条数
 
-// 加载经验数据库
-function loadExperienceDB(): string[] {
-  try {
-    const data = readFileSync(EXPERIENCE_DB_PATH, "utf-8");
-    const parsed = JSON.parse(data);
-    // 兼容两种格式：数组格式或对象格式 { "experiences": [...] }
-    if (Array.isArray(parsed)) {
-      return parsed;
-    } else if (parsed && typeof parsed === "object" && Array.isArray(parsed.experiences)) {
-      return parsed.experiences;
-    } else {
-      return [];
-    }
-  } catch (error) {
-    // 如果文件不存在，返回空数组
-    return [];
-  }
-}
-
-// 保存经验数据库
-function saveExperienceDB(experiences: string[]): void {
-  try {
-    // 确保目录存在
-    const dir = dirname(EXPERIENCE_DB_PATH);
-    mkdirSync(dir, { recursive: true });
-    // 保存到文件
-    writeFileSync(EXPERIENCE_DB_PATH, JSON.stringify(experiences, null, 2), "utf-8");
-  } catch (error) {
-    console.error("保存经验数据库失败:", error);
-  }
-}
-
-// 经验数据库（从文件加载）
-const EXPERIENCE_DB: string[] = loadExperienceDB();
-
-// 定义状态：任务、检索到的经验、执行结果、新学到的经验
+// 定义状态：任务、召回的经验、执行结果、新学到的经验
 const LearningState = Annotation.Root({
   task: Annotation<string>,        // 用户任务
-  retrievedContext: Annotation<string>,  // 检索到的经验
+  recalled: Annotation<ExperienceRecallResult[]>,  // 召回的经验及相似度
+  retrievedContext: Annotation<string>,  // 召回的经验（注入提示词的文本）
   result: Annotation<string>,      // 执行结果
   newInsight: Annotation<string>,  // 新学到的经验
+  learned: Annotation<ExperienceRecord | undefined>,  // 新增或合并后的经验记录
+  helpful: Annotation<boolean | undefined>,  // 用户反馈：回答是否有帮助（未评价时为空）
 });
 
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-const model = new ChatOpenAI({ ...CONFIG, temperature: 0.5 }); // 适中的创造性
+const model = createChatModel("learning", { temperature: 0.5 }); // 适中的创造性
+const reflectModel = createChatModel("learning.reflect", { temperature: 0 }); // 总结经验需要稳定的 JSON 输出
 
 /**
- * 回忆节点：从经验库中检索相关经验
- * 设计要点：
- * - 实际应用应使用语义搜索匹配相关经验
- * - 这里简化实现，返回所有经验
+ * 从模型输出中提取 JSON 对象
+ */
+function parseJsonObject<T>(text: string): T {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) throw new Error(`输出不是 JSON 对象：${text.slice(0, 80)}`);
+  return JSON.parse(match[0]) as T;
+}
+
+/**
+ * 回忆节点：从经验库中召回与任务最相关的经验
  */
 async function recallNode(state: typeof LearningState.State) {
   console.log(`\n📖 [Memory] 正在检索过往经验...`);
-  const context = EXPERIENCE_DB.join("\n");
-  return { retrievedContext: context };
+  const recalled = await getExperienceStore().recall(state.task, RECALL_K);
+  for (const { experience, similarity, score } of recalled) {
+    console.log(`   - [相似度 ${similarity.toFixed(2)}，得分 ${experience.score.toFixed(2)} -> ${score.toFixed(2)}] ${experience.insight}`);
+  }
+  const context = recalled.map(({ experience }) => `- ${experience.insight}`).join("\n");
+  return { recalled, retrievedContext: context };
 }
 
 /**
@@ -105,7 +77,7 @@ async function recallNode(state: typeof LearningState.State) {
 async function actNode(state: typeof LearningState.State) {
   const { task, retrievedContext } = state;
   console.log(`\n✍️ [Actor] 正在执行任务...`);
-  const prompt = `你是一个智能助手。请回答用户问题。\n⚠️ 重要：若与经验相关，务必根据过往经验回答。若完全不想管则可以自由发挥：\n${retrievedContext}\n用户任务: "${task}"`;
+  const prompt = `你是一个智能助手。请回答用户问题。\n⚠️ 重要：若与经验相关，务必根据过往经验回答。若完全不想管则可以自由发挥：\n${retrievedContext || "（暂无相关经验）"}\n用户任务: "${task}"`;
   const res = await model.invoke([new HumanMessage(prompt)]);
   return { result: res.content as string };
 }
@@ -113,20 +85,34 @@ async function actNode(state: typeof LearningState.State) {
 /**
  * 学习节点：从任务执行中提取新经验
  * 设计要点：
- * - 分析任务和结果，提取通用经验
- * - 将新经验添加到经验库（实际应用应持久化）
+ * - 分析任务和结果，提取一条通用经验及其置信度
+ * - 写入经验库，与已有经验重复时合并
+ * - 模型输出无法解析或没有值得记录的经验时不写入
  */
 async function learnNode(state: typeof LearningState.State) {
   const { task, result } = state;
   console.log(`\n🧠 [Learner] 正在总结本次教训...`);
-  const prompt = `任务: "${task}"\n回答: "${result}"\n请反思这次任务，提取用户的信息，总结成简短的一句话纳入经验。`;
-  const res = await model.invoke([new HumanMessage(prompt)]);
-  const insight = res.content as string;
-  EXPERIENCE_DB.push(`新经验: ${insight}`);
-  // 持久化保存到文件
-  saveExperienceDB(EXPERIENCE_DB);
-  console.log(`✅ 已通过学习获得新知识: "${insight}"`);
-  return { newInsight: insight };
+  const prompt = `任务: "${task}"\n回答: "${result}"\n请反思这次任务，提取用户的信息，总结成简短的一句话纳入经验，并给出 0-1 的置信度。
+只输出 JSON 对象，例如 {"insight": "用户周六要去看篮球比赛", "confidence": 0.8}；没有值得记录的经验时输出 {"insight": ""}。`;
+
+  let reflection: { insight?: unknown; confidence?: unknown };
+  try {
+    const res = await reflectModel.invoke([new HumanMessage(prompt)]);
+    reflection = parseJsonObject(String(res.content));
+  } catch (error) {
+    console.error("[Learner] 经验总结解析失败，跳过本次学习:", error instanceof Error ? error.message : error);
+    return { newInsight: "", learned: undefined };
+  }
+
+  const insight = typeof reflection.insight === "string" ? reflection.insight.trim() : "";
+  if (!insight) {
+    console.log("ℹ️ 本次没有值得记录的新经验");
+    return { newInsight: "", learned: undefined };
+  }
+  const confidence = typeof reflection.confidence === "number" ? reflection.confidence : undefined;
+  const { experience, merged } = await getExperienceStore().add(insight, { sourceTask: task, confidence });
+  console.log(`✅ ${merged ? "合并到已有经验" : "已通过学习获得新知识"}: "${insight}"（置信度 ${experience.confidence.toFixed(2)}）`);
+  return { newInsight: insight, learned: experience };
 }
 
 const workflow = new StateGraph(LearningState)
@@ -138,7 +124,33 @@ const workflow = new StateGraph(LearningState)
   .addEdge("act", "learn")
   .addEdge("learn", END);
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("learning") });
+
+/**
+ * 记录用户对一次执行结果的反馈，每个线程只能评价一次
+ * - 本次召回的每条经验按反馈加减分（见 ExperienceStore.feedback）
+ * - "是否已评价" 的检查和加减分在经验库的同一次加锁修改内完成，并发的重复评价只有一次生效
+ * - 反馈同时写入线程状态，便于查看该次执行的评价
+ * @returns recorded 为 false 表示该线程已经评价过，本次没有生效
+ */
+async function recordFeedback(
+  threadId: string,
+  helpful: boolean
+): Promise<{ recorded: boolean; experiences: ExperienceRecord[] }> {
+  const config = threadConfig(threadId);
+  const { values } = await app.getState(config);
+  if (values.helpful !== undefined) return { recorded: false, experiences: [] };
+
+  const ids = (values.recalled ?? []).map(({ experience }: ExperienceRecallResult) => experience.id);
+  const updated = await getExperienceStore().feedback(ids, helpful, threadId);
+  if (!updated) return { recorded: false, experiences: [] };
+  await app.updateState(config, { helpful }, "learn");
+  console.log(`${helpful ? "👍" : "👎"} [Feedback] 已根据反馈调整 ${updated.length} 条经验`);
+  return { recorded: true, experiences: updated };
+}
+
+// 导出 app 供服务器使用
+export { app, LearningState, recordFeedback };
 
 async function main() {
   const rl = readline.createInterface({
@@ -155,9 +167,28 @@ async function main() {
       rl.close();
       break;
     }
-    const res = await app.invoke({ task });
+    const config = threadConfig();
+    const res = await app.invoke({ task }, config);
     console.log("本次回复:", res.result);
-    console.log("\n📚 当前经验库状态:", EXPERIENCE_DB);
+
+    if (res.recalled.length > 0) {
+      const answer: string = await new Promise((resolve) => {
+        rl.question("这次回答有帮助吗？(y/n，直接回车跳过): ", resolve);
+      });
+      const rating = answer.trim().toLowerCase();
+      if (rating === "y" || rating === "n") {
+        const { recorded } = await recordFeedback(config.configurable.thread_id, rating === "y");
+        if (!recorded) console.log("该次执行已经评价过，本次评价未生效");
+      }
+    }
+    console.log("\n📚 当前经验库状态:");
+    for (const e of getExperienceStore().list()) {
+      console.log(`   - ${e.insight}（置信度 ${e.confidence.toFixed(2)}，得分 ${e.score.toFixed(2)}，使用 ${e.usageCount} 次）`);
+    }
   }
 }
-main().catch(console.error);
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,263 @@
+/**
+ * 本地工具 (Local Tools)
+ *
+ * 功能概述：
+ * 提供不依赖 MCP Server 的本地工具，转换成 LangChain 工具供 bindTools 使用：
+ * - local__run_code：在沙箱中运行一段 JavaScript / TypeScript 代码（或工作区中的代码文件），返回控制台输出
+ * - local__read_file / local__write_file：读写工作区目录下的文件
+ *
+ * 设计要点：
+ * 1. 沙箱：代码在独立的子进程中用 vm 执行，三层隔离：
+ *    - vm 上下文的全局对象没有原型，console 在上下文内部定义，上下文中拿不到任何宿主函数，
+ *      console.log.constructor("return process")() 之类的写法只能得到上下文自己的 Function，访问不到 process
+ *    - 子进程的环境变量为空、不继承 execArgv，即使逃出 vm 也读不到 API Key 等密钥
+ *    - Node 支持权限模型（--experimental-permission）时启用，子进程不能读写文件、创建子进程或 worker
+ *    同步部分受 vm 超时限制，整体（含异步代码）超过 CODE_TIMEOUT_MS 时杀掉子进程，并限制堆内存
+ * 2. TypeScript：先用 typescript 的 transpileModule 去掉类型再执行（只转译，不做类型检查）
+ * 3. 工作区：所有路径都相对于 WORKSPACE_DIR 解析，越出工作区的路径直接报错
+ * 4. 错误上抛：工具执行失败时抛出异常，由调用方包装成工具结果交给模型处理（与 mcp_tools.ts 一致）
+ * 5. 工具命名：与 MCP 工具相同的 "命名空间__工具名" 格式
+ *
+ * 环境变量：
+ * - WORKSPACE_DIR：工作区目录（默认 ./.workspace）
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, extname, join, relative, resolve, sep } from "path";
+import { spawn } from "child_process";
+import { tool, type StructuredToolInterface } from "@langchain/core/tools";
+
+type CodeLanguage = "javascript" | "typescript";
+
+type CodeRunResult = {
+  output: string;        // console 输出
+  error?: string;        // 未捕获的异常
+  timedOut: boolean;
+};
+
+const CODE_TIMEOUT_MS = 5_000;
+const CODE_MEMORY_MB = 64;
+const MAX_OUTPUT_CHARS = 4_000;
+const MAX_READ_CHARS = 20_000;
+
+// 代码在等待永远不会完成的 Promise（没有定时器和 I/O，事件循环清空后子进程会自行退出）
+const PENDING_ERROR = "代码未产生结果：Promise 未完成（等待中的异步操作永远不会完成）";
+
+const workspaceDir = () => resolve(process.env.WORKSPACE_DIR ?? join(process.cwd(), ".workspace"));
+
+// 子进程中执行的脚本：从 stdin 读取 { code, timeoutMs, maxOutput }，在隔离的 vm 上下文中运行，把结果以 JSON 写到 stdout
+// - 上下文内的代码先保存 Promise.prototype.then 和 Reflect.apply，用户代码改写它们也拿不到宿主函数
+// - send / done 只存在于上下文内函数的闭包中，调用时栈上没有用户代码；宿主脚本使用严格模式，
+//   Error.prepareStackTrace 的 getFunction() 拿不到宿主函数
+const RUNNER_SOURCE = `
+"use strict";
+const vm = require("vm");
+process.on("unhandledRejection", () => {});
+let input = "";
+process.stdin.setEncoding("utf-8");
+process.stdin.on("data", (chunk) => (input += chunk));
+process.stdin.on("end", () => {
+  const { code, timeoutMs, maxOutput } = JSON.parse(input);
+  const lines = [];
+  let size = 0;
+  const send = (line) => {
+    if (size > maxOutput) return;
+    size += line.length + 1;
+    lines.push(line);
+  };
+  const done = (error) => {
+    process.stdout.write(JSON.stringify({ output: lines.join("\\n"), error }));
+    process.exit(0);
+  };
+  // 事件循环已清空但代码还没结束：在等待一个永远不会完成的 Promise，带上已有的输出报告
+  process.on("beforeExit", () => done(${JSON.stringify(PENDING_ERROR)}));
+  const context = vm.createContext(Object.create(null));
+  const start = vm.runInContext(\`"use strict";
+  (function (send, done) {
+    const apply = Reflect.apply;
+    const then = Promise.prototype.then;
+    const toString = String;
+    const stringify = JSON.stringify;
+    const format = (value) => {
+      if (typeof value === "string") return value;
+      try {
+        const json = stringify(value);
+        return json === undefined ? toString(value) : json;
+      } catch (error) {
+        return "[无法显示的值]";
+      }
+    };
+    const describeError = (error) => {
+      try {
+        return error && typeof error.stack === "string" ? error.stack.split("\\\\n")[0] : toString(error);
+      } catch (formatError) {
+        return "未知错误";
+      }
+    };
+    const write = (...args) => { send(toString(args.map(format).join(" "))); };
+    Object.defineProperty(globalThis, "console", { value: Object.freeze({ log: write, info: write, warn: write, error: write }) });
+    return (run) => {
+      try {
+        apply(then, run(), [() => done(undefined), (error) => done(toString(describeError(error)))]);
+      } catch (error) {
+        done(toString(describeError(error)));
+      }
+    };
+  })\`, context)(send, done);
+  // start 只在执行用户代码前短暂挂在全局上，取出后立即删除；用户代码的同步部分受 vm 超时限制
+  context.__start__ = start;
+  try {
+    vm.runInContext("(function (start) { delete globalThis.__start__; start(async () => {\\n" + code + "\\n}); })(globalThis.__start__)", context, { timeout: timeoutMs });
+  } catch (error) {
+    // 只有超时和语法错误会在这里抛出（用户代码的异常已转成 Promise 拒绝）
+    done(error && error.code === "ERR_SCRIPT_EXECUTION_TIMEOUT" ? "Script execution timed out" : String(error && error.name) + ": " + String(error && error.message));
+  }
+});
+`;
+
+// 子进程的 Node 参数：限制堆内存；支持权限模型时禁止文件读写、子进程和 worker
+const RUNNER_ARGS = [
+  `--max-old-space-size=${CODE_MEMORY_MB}`,
+  ...(process.allowedNodeEnvironmentFlags.has("--experimental-permission") ? ["--experimental-permission", "--no-warnings"] : []),
+];
+
+/**
+ * 去掉 TypeScript 类型；typescript 只在运行 TS 代码时才加载
+ */
+function transpileTypeScript(code: string): string {
+  const ts = require("typescript") as typeof import("typescript");
+  return ts.transpileModule(code, {
+    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.None, removeComments: false },
+  }).outputText;
+}
+
+/**
+ * 在沙箱子进程中运行代码
+ */
+function runCode(code: string, language: CodeLanguage = "javascript", timeoutMs = CODE_TIMEOUT_MS): Promise<CodeRunResult> {
+  const source = language === "typescript" ? transpileTypeScript(code) : code;
+  return new Promise((resolvePromise) => {
+    const child = spawn(process.execPath, [...RUNNER_ARGS, "-e", RUNNER_SOURCE], {
+      env: {},                      // 不把 API Key 等环境变量交给子进程
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    let stdout = "";
+    let stderr = "";
+    let settled = false;
+    const finish = (result: CodeRunResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      child.kill("SIGKILL");
+      resolvePromise({ ...result, output: result.output.slice(0, MAX_OUTPUT_CHARS) });
+    };
+    const timer = setTimeout(() => finish({ output: "", error: `执行超时（${timeoutMs}ms）`, timedOut: true }), timeoutMs);
+    child.stdout.setEncoding("utf-8").on("data", (chunk: string) => (stdout += chunk));
+    child.stderr.setEncoding("utf-8").on("data", (chunk: string) => (stderr = (stderr + chunk).slice(-MAX_OUTPUT_CHARS)));
+    child.on("error", (error) => finish({ output: "", error: error.message, timedOut: false }));
+    child.on("close", (code, signal) => {
+      try {
+        const message = JSON.parse(stdout) as { output: string; error?: string };
+        finish({ ...message, timedOut: /Script execution timed out/.test(message.error ?? "") });
+      } catch {
+        // 正常退出却没有结果：子进程没来得及报告时的兜底，原因同 PENDING_ERROR
+        if (code === 0 && !stdout) {
+          finish({ output: "", error: PENDING_ERROR, timedOut: false });
+          return;
+        }
+        const reason = stderr.trim().split("\n").pop() || `退出码 ${code ?? signal}`;
+        finish({ output: "", error: `代码运行进程异常退出：${reason}`, timedOut: false });
+      }
+    });
+    child.stdin.end(JSON.stringify({ code: source, timeoutMs, maxOutput: MAX_OUTPUT_CHARS }));
+  });
+}
+
+/**
+ * 把相对路径解析为工作区内的绝对路径；越出工作区时报错
+ */
+function resolveWorkspacePath(path: string): string {
+  const root = workspaceDir();
+  const fullPath = resolve(root, path);
+  if (fullPath !== root && !fullPath.startsWith(root + sep)) {
+    throw new Error(`路径超出工作区: ${path}`);
+  }
+  return fullPath;
+}
+
+const languageOf = (path: string): CodeLanguage => ([".ts", ".mts", ".cts"].includes(extname(path)) ? "typescript" : "javascript");
+
+/**
+ * 创建本地工具
+ */
+function createLocalTools(): StructuredToolInterface[] {
+  const runCodeTool = tool(
+    async (input: unknown) => {
+      const args = input as { code?: string; path?: string; language?: CodeLanguage };
+      if (!args.code && !args.path) throw new Error("需要提供 code 或 path");
+      const code = args.code ?? readFileSync(resolveWorkspacePath(args.path!), "utf-8");
+      const language = args.language ?? (args.path ? languageOf(args.path) : "javascript");
+      const result = await runCode(code, language);
+      if (result.error) throw new Error(`${result.error}${result.output ? `\n已有输出:\n${result.output}` : ""}`);
+      return result.output || "（没有输出）";
+    },
+    {
+      name: "local__run_code",
+      description: "[local.run_code] 在隔离的子进程中运行 JavaScript 或 TypeScript 代码，返回 console 输出；只能使用 JavaScript 内置对象和 console（没有 require、process、fetch 和定时器）",
+      schema: {
+        type: "object",
+        properties: {
+          code: { type: "string", description: "要运行的代码，用 console.log 输出结果" },
+          path: { type: "string", description: "改为运行工作区中的代码文件（与 code 二选一）" },
+          language: { type: "string", enum: ["javascript", "typescript"], description: "默认按文件扩展名判断，否则为 javascript" },
+        },
+      },
+    }
+  );
+
+  const readFileTool = tool(
+    async (input: unknown) => {
+      const args = input as { path: string };
+      const fullPath = resolveWorkspacePath(args.path);
+      if (!existsSync(fullPath)) throw new Error(`文件不存在: ${args.path}`);
+      const content = readFileSync(fullPath, "utf-8");
+      return content.length > MAX_READ_CHARS ? `${content.slice(0, MAX_READ_CHARS)}\n...（已截断）` : content;
+    },
+    {
+      name: "local__read_file",
+      description: "[local.read_file] 读取工作区中的文本文件",
+      schema: {
+        type: "object",
+        properties: { path: { type: "string", description: "相对于工作区的路径" } },
+        required: ["path"],
+      },
+    }
+  );
+
+  const writeFileTool = tool(
+    async (input: unknown) => {
+      const args = input as { path: string; content: string };
+      const fullPath = resolveWorkspacePath(args.path);
+      mkdirSync(dirname(fullPath), { recursive: true });
+      writeFileSync(fullPath, args.content, "utf-8");
+      return `已写入 ${relative(workspaceDir(), fullPath)}（${Buffer.byteLength(args.content)} 字节）`;
+    },
+    {
+      name: "local__write_file",
+      description: "[local.write_file] 写入工作区中的文本文件（覆盖已有内容，自动创建目录）",
+      schema: {
+        type: "object",
+        properties: {
+          path: { type: "string", description: "相对于工作区的路径" },
+          content: { type: "string", description: "文件内容" },
+        },
+        required: ["path", "content"],
+      },
+    }
+  );
+
+  return [runCodeTool, readFileTool, writeFileTool];
+}
+
+export { createLocalTools, runCode, resolveWorkspacePath };
+export type { CodeRunResult, CodeLanguage };
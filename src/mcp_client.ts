@@ -0,0 +1,597 @@
+/**
+ * MCP 客户端 (stdio 传输)
+ *
+ * 功能概述：
+ * - McpStdioClient：与单个 MCP Server 进程的 JSON-RPC 会话（stdio 传输），支持请求超时与取消
+ * - McpHttpClient：与独立运行的 MCP Server 的会话（Streamable HTTP 传输），接口与 McpStdioClient 一致
+ * - McpClientManager：按 mcp.config.json 启动所有 server，统一管理生命周期与工具
+ *
+ * 设计要点：
+ * 1. 超时与取消：请求超时或调用方 abort 时，向 server 发送 notifications/cancelled 并立即失败
+ * 2. 进程退出：server 进程退出后，所有未完成的请求立即失败，不会永远挂起
+ * 3. 工具命名空间：不同 server 的工具以 "<server>.<tool>" 区分（如 demo.math_add），避免重名
+ * 4. 崩溃重启：stdio server 意外退出时按间隔自动重启并重新握手，超过重启次数上限后放弃
+ * 5. 优雅关闭：先关闭 stdin 让 server 自行退出，超时未退出再强制结束
+ * 6. 会话失效：HTTP server 对会话 ID 返回 404（会话过期或服务重启）时，按规范重新 initialize 建立新会话并重试一次请求
+ *
+ * 配置（mcp.config.json 中每个 server，command 与 url 二选一）：
+ * - command / args / env：启动本地进程，走 stdio
+ * - url / headers：连接已运行的服务（如 npm run server 提供的 http://localhost:3000/mcp），走 Streamable HTTP
+ * - timeoutMs：该 server 的请求超时（默认 60 秒，可用环境变量 MCP_REQUEST_TIMEOUT_MS 统一覆盖默认值）
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process";
+import * as readline from "readline";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+
+type McpStdioServerConfig = {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  timeoutMs?: number;
+};
+
+type McpHttpServerConfig = {
+  url: string;
+  headers?: Record<string, string>; // 额外请求头（如鉴权）
+  timeoutMs?: number;
+};
+
+type McpServerConfig = McpStdioServerConfig | McpHttpServerConfig;
+
+type McpConfigFile = {
+  mcpServers: Record<string, McpServerConfig>;
+};
+
+type JsonRpcRequest = {
+  jsonrpc: "2.0";
+  id: number;
+  method: string;
+  params?: unknown;
+};
+
+type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: number; result: unknown }
+  | { jsonrpc: "2.0"; id: number; error: { code: number; message: string; data?: unknown } };
+
+const loadConfig = (configPath: string) => {
+  const raw = readFileSync(configPath, "utf-8");
+  const parsed = JSON.parse(raw) as McpConfigFile;
+  if (!parsed?.mcpServers || typeof parsed.mcpServers !== "object") {
+    throw new Error(`配置文件格式不正确：需要顶层字段 "mcpServers"，path=${configPath}`);
+  }
+  for (const [name, server] of Object.entries(parsed.mcpServers)) {
+    const hasCommand = typeof (server as McpStdioServerConfig)?.command === "string";
+    const hasUrl = typeof (server as McpHttpServerConfig)?.url === "string";
+    if (hasCommand === hasUrl) {
+      throw new Error(`配置文件格式不正确：server "${name}" 需要 "command" 或 "url" 其中之一，path=${configPath}`);
+    }
+  }
+  return parsed;
+};
+
+const resolveCommand = (command: string) => {
+  // 如果已经是路径/带扩展名，就直接用
+  const looksLikePath = command.includes("/") || command.includes("\\");
+  if (looksLikePath) return command;
+
+  // npm script 下，父进程能找到 tsx，但子进程 spawn('tsx') 可能找不到。
+  // 这里显式去 node_modules/.bin 里找一份可执行文件。
+  const binName = process.platform === "win32" ? `${command}.cmd` : command;
+  const localBin = join(process.cwd(), "node_modules", ".bin", binName);
+  if (existsSync(localBin)) return localBin;
+
+  return command;
+};
+
+const spawnMcpServer = (cfg: McpStdioServerConfig) => {
+  const command = resolveCommand(cfg.command);
+  const useShell = process.platform === "win32" && (command.toLowerCase().endsWith(".cmd") || command.toLowerCase().endsWith(".bat"));
+  const child = spawn(command, cfg.args ?? [], {
+    stdio: ["pipe", "pipe", "pipe"],
+    env: { ...process.env, ...(cfg.env ?? {}) },
+    shell: useShell,
+  });
+
+  child.on("error", (error) => {
+    console.error(`[MCP] 启动 server 失败：${String(error)}`);
+  });
+
+  child.on("exit", (code, signal) => {
+    console.log(`[MCP] server 进程退出：code=${code} signal=${signal}`);
+  });
+
+  child.stderr.on("data", (buf) => {
+    const text = buf.toString();
+    if (text.trim()) console.error(`[MCP:stderr] ${text.trimEnd()}`);
+  });
+
+  return child;
+};
+
+type RequestOptions = {
+  timeoutMs?: number;   // 超时时间，默认使用客户端的 requestTimeoutMs
+  signal?: AbortSignal; // 调用方取消
+};
+
+type PendingRequest = {
+  resolve: (v: unknown) => void;
+  reject: (e: unknown) => void;
+  cleanup: () => void;
+};
+
+/**
+ * 两种传输共同的客户端接口
+ */
+type McpClient = {
+  request(method: string, params?: unknown, options?: RequestOptions): Promise<unknown>;
+  notify(method: string, params?: unknown): void | Promise<void>;
+  close(): Promise<void>;
+  readonly isRunning: boolean;
+};
+
+const DEFAULT_REQUEST_TIMEOUT_MS = Number(process.env.MCP_REQUEST_TIMEOUT_MS ?? 60_000);
+const CLOSE_GRACE_MS = 2_000;
+
+class McpStdioClient implements McpClient {
+  private child: ChildProcessWithoutNullStreams;
+  private rl: readline.Interface;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private requestTimeoutMs: number;
+  private exited: Promise<void>;
+
+  constructor(child: ChildProcessWithoutNullStreams, options: { requestTimeoutMs?: number } = {}) {
+    this.child = child;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.rl = readline.createInterface({ input: child.stdout, crlfDelay: Infinity });
+    this.rl.on("line", (line) => this.onLine(line));
+    // server 在 writable 检查之后、写入之前退出时，写入会以 EPIPE 等 error 事件失败；没有监听器会让宿主进程崩溃
+    child.stdin.on("error", (error) => this.failAll(new Error(`写入 MCP server 失败：${error.message}`)));
+
+    // 进程退出后，所有未完成的请求都不会再有响应，直接失败
+    this.exited = new Promise((resolve) => {
+      child.once("exit", (code, signal) => {
+        this.failAll(new Error(`MCP server 进程已退出：code=${code} signal=${signal}`));
+        resolve();
+      });
+    });
+  }
+
+  private onLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    let msg: JsonRpcResponse;
+    try {
+      msg = JSON.parse(trimmed) as JsonRpcResponse;
+    } catch {
+      console.error(`[MCP] 收到非 JSON 行：${trimmed}`);
+      return;
+    }
+
+    const id = (msg as any)?.id;
+    if (typeof id !== "number") return;
+
+    const pending = this.pending.get(id);
+    if (!pending) return;
+
+    this.pending.delete(id);
+    pending.cleanup();
+    if ("error" in msg) {
+      pending.reject(Object.assign(new Error(msg.error.message), { code: msg.error.code, data: msg.error.data }));
+      return;
+    }
+    pending.resolve(msg.result);
+  };
+
+  private failAll = (error: Error) => {
+    for (const pending of this.pending.values()) {
+      pending.cleanup();
+      pending.reject(error);
+    }
+    this.pending.clear();
+  };
+
+  private write = (message: unknown) => {
+    if (!this.child.stdin.writable) throw new Error("MCP server 的 stdin 已关闭");
+    this.child.stdin.write(`${JSON.stringify(message)}\n`);
+  };
+
+  /**
+   * 发送 JSON-RPC 通知（没有 id，server 不回包）
+   */
+  notify = (method: string, params?: unknown) => {
+    this.write({ jsonrpc: "2.0", method, ...(params === undefined ? {} : { params }) });
+  };
+
+  /**
+   * 发送 JSON-RPC 请求
+   * 超时或被 signal 取消时：向 server 发送 notifications/cancelled，并以错误结束本次请求
+   */
+  request = async (method: string, params?: unknown, options: RequestOptions = {}) => {
+    const id = this.nextId++;
+    const req: JsonRpcRequest = { jsonrpc: "2.0", id, method, ...(params === undefined ? {} : { params }) };
+    const timeoutMs = options.timeoutMs ?? this.requestTimeoutMs;
+    const { signal } = options;
+    if (signal?.aborted) throw new Error(`请求已取消：${method}`);
+
+    return await new Promise<unknown>((resolve, reject) => {
+      const cancel = (reason: string) => {
+        if (!this.pending.delete(id)) return;
+        cleanup();
+        try {
+          this.notify("notifications/cancelled", { requestId: id, reason });
+        } catch {
+          // server 已退出时无需再通知
+        }
+        reject(new Error(reason));
+      };
+      const onAbort = () => cancel(`请求已取消：${method}`);
+      const timer = setTimeout(() => cancel(`请求超时（${timeoutMs}ms）：${method}`), timeoutMs);
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.pending.set(id, { resolve, reject, cleanup });
+      try {
+        this.write(req);
+      } catch (error) {
+        this.pending.delete(id);
+        cleanup();
+        reject(error);
+      }
+    });
+  };
+
+  get isRunning() {
+    return this.child.exitCode === null && this.child.signalCode === null;
+  }
+
+  /**
+   * 关闭连接：先关闭 stdin 让 server 自行退出，超时仍未退出再强制结束进程
+   */
+  close = async () => {
+    this.rl.close();
+    if (!this.isRunning) return;
+    this.child.stdin.end();
+    const timer = setTimeout(() => this.child.kill(), CLOSE_GRACE_MS);
+    await this.exited;
+    clearTimeout(timer);
+  };
+}
+
+/**
+ * 读取 SSE 响应，直到拿到 id 匹配的 JSON-RPC 响应（期间 server 发来的通知直接忽略）
+ */
+const readSseResponse = async (body: ReadableStream<Uint8Array>, id: number) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const data = event
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trimStart())
+          .join("\n");
+        if (!data) continue;
+        const msg = JSON.parse(data) as JsonRpcResponse;
+        if (msg.id === id && ("result" in msg || "error" in msg)) return msg;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+  throw new Error("SSE 流已结束，但没有收到响应");
+};
+
+class McpHttpClient implements McpClient {
+  private url: string;
+  private headers: Record<string, string>;
+  private nextId = 1;
+  private requestTimeoutMs: number;
+  private sessionId?: string;
+  private protocolVersion?: string;
+  private initializeParams?: unknown;            // 会话失效后重新 initialize 时使用
+  private reinitializing?: Promise<void>;        // 并发请求同时遇到会话失效时只重建一次
+  private closed = false;
+
+  constructor(cfg: McpHttpServerConfig, options: { requestTimeoutMs?: number } = {}) {
+    this.url = cfg.url;
+    this.headers = cfg.headers ?? {};
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  }
+
+  private post = (message: unknown, signal?: AbortSignal) =>
+    fetch(this.url, {
+      method: "POST",
+      headers: {
+        ...this.headers,
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...(this.sessionId ? { "Mcp-Session-Id": this.sessionId } : {}),
+        ...(this.protocolVersion ? { "MCP-Protocol-Version": this.protocolVersion } : {}),
+      },
+      body: JSON.stringify(message),
+      signal,
+    });
+
+  notify = async (method: string, params?: unknown) => {
+    const res = await this.post({ jsonrpc: "2.0", method, ...(params === undefined ? {} : { params }) });
+    if (!res.ok) throw new Error(`MCP 通知发送失败：HTTP ${res.status} ${method}`);
+  };
+
+  /**
+   * 会话失效后重新握手：initialize -> notifications/initialized
+   */
+  private reinitialize = (expiredSessionId: string) => {
+    this.reinitializing ??= (async () => {
+      console.log(`[MCP] 会话 ${expiredSessionId} 已失效，重新 initialize`);
+      this.sessionId = undefined;
+      await this.request("initialize", this.initializeParams);
+      await this.notify("notifications/initialized");
+    })().finally(() => (this.reinitializing = undefined));
+    return this.reinitializing;
+  };
+
+  /**
+   * 发送 JSON-RPC 请求；响应可能是 application/json，也可能是 text/event-stream
+   * 超时或被 signal 取消时：中止 HTTP 请求，并向 server 发送 notifications/cancelled
+   */
+  request = async (method: string, params?: unknown, options: RequestOptions = {}) => {
+    if (this.closed) throw new Error("MCP 会话已关闭");
+    const id = this.nextId++;
+    const req: JsonRpcRequest = { jsonrpc: "2.0", id, method, ...(params === undefined ? {} : { params }) };
+    const timeoutMs = options.timeoutMs ?? this.requestTimeoutMs;
+    if (options.signal?.aborted) throw new Error(`请求已取消：${method}`);
+
+    const controller = new AbortController();
+    let reason = "";
+    const cancel = (why: string) => {
+      reason = why;
+      controller.abort();
+    };
+    const onAbort = () => cancel(`请求已取消：${method}`);
+    const timer = setTimeout(() => cancel(`请求超时（${timeoutMs}ms）：${method}`), timeoutMs);
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      const sessionId = this.sessionId;
+      let res = await this.post(req, controller.signal);
+      if (res.status === 404 && sessionId && method !== "initialize" && this.initializeParams !== undefined) {
+        await res.body?.cancel();
+        // 其他请求可能已经重建了会话
+        if (this.sessionId === sessionId) await this.reinitialize(sessionId);
+        else await this.reinitializing;
+        res = await this.post(req, controller.signal);
+      }
+      if (!res.ok) {
+        const text = await res.text();
+        throw new Error(`MCP HTTP 请求失败：${res.status} ${text}`);
+      }
+
+      const contentType = res.headers.get("content-type") ?? "";
+      const msg =
+        contentType.includes("text/event-stream") && res.body
+          ? await readSseResponse(res.body, id)
+          : ((await res.json()) as JsonRpcResponse);
+
+      if ("error" in msg) {
+        throw Object.assign(new Error(msg.error.message), { code: msg.error.code, data: msg.error.data });
+      }
+      if (method === "initialize") {
+        this.initializeParams = params;
+        this.sessionId = res.headers.get("mcp-session-id") ?? undefined;
+        this.protocolVersion = (msg.result as any)?.protocolVersion;
+      }
+      return msg.result;
+    } catch (error) {
+      if (!controller.signal.aborted) throw error;
+      this.notify("notifications/cancelled", { requestId: id, reason }).catch(() => undefined);
+      throw new Error(reason);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+  };
+
+  get isRunning() {
+    return !this.closed;
+  }
+
+  /**
+   * 关闭连接：DELETE 结束服务端会话（失败不影响关闭）
+   */
+  close = async () => {
+    if (this.closed) return;
+    this.closed = true;
+    if (!this.sessionId) return;
+    await fetch(this.url, {
+      method: "DELETE",
+      headers: { ...this.headers, "Mcp-Session-Id": this.sessionId },
+      signal: AbortSignal.timeout(CLOSE_GRACE_MS),
+    }).catch(() => undefined);
+  };
+}
+
+type McpTool = {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+};
+
+type McpToolResult = {
+  content?: { type: string; text?: string }[];
+  isError?: boolean;
+};
+
+type NamespacedTool = McpTool & {
+  server: string;
+  qualifiedName: string; // "<server>.<tool>"
+};
+
+type ManagedServer = {
+  name: string;
+  config: McpServerConfig;
+  client?: McpClient;
+  tools: McpTool[];
+  restarts: number;
+};
+
+type ManagerOptions = {
+  maxRestarts?: number;    // 单个 server 的最大重启次数（默认 3）
+  restartDelayMs?: number; // 崩溃后等待多久再重启（默认 1 秒）
+};
+
+const PROTOCOL_VERSION = "2025-06-18";
+
+class McpClientManager {
+  private servers = new Map<string, ManagedServer>();
+  private maxRestarts: number;
+  private restartDelayMs: number;
+  private shuttingDown = false;
+
+  constructor(cfg: McpConfigFile, options: ManagerOptions = {}) {
+    this.maxRestarts = options.maxRestarts ?? 3;
+    this.restartDelayMs = options.restartDelayMs ?? 1_000;
+    for (const [name, config] of Object.entries(cfg.mcpServers)) {
+      if (name.includes(".")) throw new Error(`server 名称不能包含 "."：${name}`);
+      this.servers.set(name, { name, config, tools: [], restarts: 0 });
+    }
+    if (this.servers.size === 0) throw new Error("配置中没有任何 mcpServers");
+  }
+
+  /**
+   * 启动所有 server；单个 server 启动失败只记录日志，不影响其他 server
+   */
+  start = async () => {
+    const results = await Promise.allSettled([...this.servers.values()].map((server) => this.connect(server)));
+    results.forEach((result, i) => {
+      if (result.status === "rejected") {
+        const name = [...this.servers.keys()][i];
+        console.error(`[MCP] server "${name}" 启动失败：${String(result.reason)}`);
+      }
+    });
+    if (results.every((result) => result.status === "rejected")) {
+      throw new Error("所有 MCP server 都启动失败");
+    }
+  };
+
+  /**
+   * 启动进程并握手：initialize -> notifications/initialized -> tools/list
+   */
+  private connect = async (server: ManagedServer) => {
+    const client = "url" in server.config ? this.connectHttp(server, server.config) : this.spawnStdio(server, server.config);
+    server.client = client;
+
+    try {
+      await this.handshake(server, client);
+    } catch (error) {
+      // 握手失败的进程不再使用；先解除关联，避免 onExit 把主动关闭当成崩溃去重启
+      server.client = undefined;
+      await client.close();
+      throw error;
+    }
+  };
+
+  private spawnStdio = (server: ManagedServer, config: McpStdioServerConfig) => {
+    console.log(`[MCP] 启动 server="${server.name}"：${config.command} ${(config.args ?? []).join(" ")}`);
+    const child = spawnMcpServer(config);
+    const client = new McpStdioClient(child, { requestTimeoutMs: config.timeoutMs });
+    child.once("exit", () => this.onExit(server, client));
+    return client;
+  };
+
+  private connectHttp = (server: ManagedServer, config: McpHttpServerConfig) => {
+    console.log(`[MCP] 连接 server="${server.name}"：${config.url}`);
+    return new McpHttpClient(config, { requestTimeoutMs: config.timeoutMs });
+  };
+
+  private handshake = async (server: ManagedServer, client: McpClient) => {
+    await client.request("initialize", {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {
+        // 这里只是演示；真实客户端会填更多能力（roots、sampling 等）
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+      clientInfo: { name: "agent_patterns_demo_client", version: "0.0.1" },
+    });
+    await client.notify("notifications/initialized");
+    const { tools } = (await client.request("tools/list")) as { tools: McpTool[] };
+    server.tools = tools;
+    console.log(`[MCP] server="${server.name}" 就绪，${tools.length} 个工具`);
+  };
+
+  /**
+   * 进程退出（仅 stdio）：非主动关闭时按间隔重启，超过上限后放弃
+   */
+  private onExit = (server: ManagedServer, client: McpClient) => {
+    if (this.shuttingDown || server.client !== client) return;
+    server.client = undefined;
+    server.tools = [];
+    if (server.restarts >= this.maxRestarts) {
+      console.error(`[MCP] server "${server.name}" 已重启 ${server.restarts} 次，不再重启`);
+      return;
+    }
+    server.restarts += 1;
+    console.error(`[MCP] server "${server.name}" 意外退出，${this.restartDelayMs}ms 后第 ${server.restarts} 次重启`);
+    setTimeout(() => {
+      if (this.shuttingDown) return;
+      this.connect(server).catch((error) => console.error(`[MCP] server "${server.name}" 重启失败：${String(error)}`));
+    }, this.restartDelayMs);
+  };
+
+  /**
+   * 获取某个 server 的客户端；server 未运行（未启动或正在重启）时抛错
+   */
+  getClient = (serverName: string) => {
+    const server = this.servers.get(serverName);
+    if (!server) throw new Error(`未知的 MCP server：${serverName}`);
+    if (!server.client?.isRunning) throw new Error(`MCP server "${serverName}" 当前不可用`);
+    return server.client;
+  };
+
+  /**
+   * 列出所有运行中 server 的工具，工具名带命名空间
+   */
+  listTools = (): NamespacedTool[] =>
+    [...this.servers.values()].flatMap((server) =>
+      server.tools.map((tool) => ({ ...tool, server: server.name, qualifiedName: `${server.name}.${tool.name}` }))
+    );
+
+  /**
+   * 调用工具
+   * @param qualifiedName "<server>.<tool>"，如 demo.math_add
+   */
+  callTool = async (qualifiedName: string, args: unknown, options: RequestOptions = {}) => {
+    const dot = qualifiedName.indexOf(".");
+    if (dot <= 0) throw new Error(`工具名需要带 server 命名空间（如 demo.math_add）：${qualifiedName}`);
+    const client = this.getClient(qualifiedName.slice(0, dot));
+    const name = qualifiedName.slice(dot + 1);
+    return (await client.request("tools/call", { name, arguments: args }, options)) as McpToolResult;
+  };
+
+  /**
+   * 关闭所有 server，之后不再自动重启
+   */
+  shutdown = async () => {
+    this.shuttingDown = true;
+    await Promise.all([...this.servers.values()].map((server) => server.client?.close()));
+  };
+}
+
+export { McpStdioClient, McpHttpClient, McpClientManager, loadConfig, spawnMcpServer };
+export type { McpClient, McpServerConfig, McpStdioServerConfig, McpHttpServerConfig, McpConfigFile, McpTool, McpToolResult, NamespacedTool, RequestOptions };
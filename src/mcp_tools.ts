@@ -0,0 +1,67 @@
+/**
+ * MCP 工具适配器 (MCP -> LangChain Tools)
+ *
+ * 功能概述：
+ * 通过 McpClientManager 启动 mcp.config.json 中的所有 MCP Server，
+ * 把它们的工具转换成 LangChain 工具，供 bindTools / ToolNode 直接使用。
+ *
+ * 设计要点：
+ * 1. schema 直通：MCP 的 inputSchema 本身就是 JSON Schema，直接作为 LangChain 工具的 schema
+ * 2. 调用转发：工具被调用时发送 tools/call，把 result.content 中的文本拼接后返回给模型
+ * 3. 错误上抛：tools/call 返回 isError 或 JSON-RPC 错误时抛出异常，由 ToolNode 包装成工具消息交给模型处理
+ * 4. 生命周期：返回 close()，调用方用完后负责关闭所有 server 进程
+ * 5. 工具命名：OpenAI 的函数名不允许出现 "."，命名空间 demo.math_add 在模型侧写作 demo__math_add
+ * 6. 取消：图执行被中止时，通过 signal 向 server 发送 notifications/cancelled
+ */
+
+import { join } from "path";
+import { tool, type StructuredToolInterface } from "@langchain/core/tools";
+import { loadConfig, McpClientManager, type McpToolResult, type NamespacedTool } from "./mcp_client";
+
+/**
+ * 提取 tools/call 结果中的文本；非文本内容（图片等）以类型占位
+ */
+const toolResultText = (result: McpToolResult) =>
+  (result.content ?? []).map((part) => (part.type === "text" ? part.text ?? "" : `[${part.type}]`)).join("\n");
+
+/**
+ * 命名空间工具名 -> 模型侧的函数名（demo.math_add -> demo__math_add）
+ */
+const toFunctionName = (qualifiedName: string) => qualifiedName.replace(/\./g, "__");
+
+/**
+ * 把一个 MCP 工具包装成 LangChain 工具
+ */
+const toLangChainTool = (manager: McpClientManager, mcpTool: NamespacedTool): StructuredToolInterface =>
+  tool(
+    async (args: unknown, config) => {
+      const result = await manager.callTool(mcpTool.qualifiedName, args, { signal: config?.signal });
+      const text = toolResultText(result);
+      if (result.isError) throw new Error(text || `工具 ${mcpTool.qualifiedName} 执行失败`);
+      return text;
+    },
+    {
+      name: toFunctionName(mcpTool.qualifiedName),
+      description: `[${mcpTool.qualifiedName}] ${mcpTool.description ?? mcpTool.name}`,
+      schema: mcpTool.inputSchema,
+    }
+  );
+
+/**
+ * 连接配置中的所有 MCP Server 并加载工具
+ * @param configPath 配置文件路径，默认读取 MCP_CONFIG 或 ./mcp.config.json
+ */
+async function loadMcpTools(configPath = process.env.MCP_CONFIG ?? join(process.cwd(), "mcp.config.json")) {
+  const manager = new McpClientManager(loadConfig(configPath));
+  try {
+    await manager.start();
+  } catch (error) {
+    await manager.shutdown();
+    throw error;
+  }
+
+  const tools = manager.listTools().map((mcpTool) => toLangChainTool(manager, mcpTool));
+  return { tools, manager, close: manager.shutdown };
+}
+
+export { loadMcpTools };
@@ -2,111 +2,302 @@
  * 记忆智能体 (Memory Agent)
  * 
  * 功能概述：
- * 管理对话历史，当消息过多时自动压缩为摘要，避免上下文过长。
- * 实现长期记忆管理，平衡详细信息和计算成本。
+ * 分层管理对话记忆：短期缓冲保存最近的原始消息，过长时压缩为摘要；
+ * 长期记忆按用户保存从对话中提炼的事实，跨线程、跨会话召回。
  * 
  * 设计要点：
- * 1. 消息累积：使用 reducer 累积所有消息
- * 2. 自动压缩：当消息数量超过阈值时触发摘要生成
- * 3. 消息删除：压缩后删除旧消息，只保留最近的几条
- * 4. 摘要传递：将摘要传递给后续对话，保持上下文连续性
- * 5. 工作流模式：Start -> Chat -> [Summarize (条件) | End]
+ * 1. 短期缓冲：按 token 预算管理，摘要与消息合计超过 tokenBudget 时，把最早的若干轮压缩进摘要，
+ *    在 KEEP_RATIO 比例的预算内保留尽可能多的最近轮次；token 计数可插拔（见 tokenizer.ts），每次压缩的统计记入 compressions
+ * 2. 长期记忆：每轮对话后提炼用户的新事实（如 "用户叫小明"、"用户住在北京"），按用户持久化（见 memory_store.ts）
+ * 3. 记忆更新：提炼时参考已有记忆，信息变化时更新原记忆，用户要求忘记时删除
+ * 4. 语义召回：回复前召回与当前消息相关的长期记忆，连同核心资料（profile）注入系统提示词
+ * 5. 工作流模式：Start -> Recall -> Chat -> Extract -> [Summarize (条件) | End]
  * 
  * 适用场景：
  * - 长期对话系统（需要管理大量历史消息）
- * - 上下文窗口限制（需要压缩历史信息）
+ * - 个性化助手（跨会话记住用户信息）
  * - 成本优化（减少 token 使用）
  * 
  * 扩展方向：
- * - 实现分层记忆（短期、长期、工作记忆）
- * - 基于重要性的选择性保留
+ * - 基于重要性与时间衰减的选择性保留
  * - 外部记忆存储（数据库、向量库）
  */
 
 import "dotenv/config";
-import { Annotation, StateGraph, END } from "@langchain/langgraph";
+import { Annotation, StateGraph, END, messagesStateReducer } from "@langchain/langgraph";
 import { HumanMessage, SystemMessage, BaseMessage, RemoveMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { createChatModel } from "./model_provider";
+import { SYSTEM_PROMPTS } from "./agent_prompts";
+import { getCheckpointer, threadConfig } from "./checkpointer";
+import { getMemoryStore, MEMORY_CATEGORIES, type MemoryCategory, type MemoryRecord, type RecallResult } from "./memory_store";
+import { countMessagesTokens, getTokenizer } from "./tokenizer";
 
-// 定义状态：消息列表、摘要
+// 一次压缩的统计
+type CompressionRecord = {
+  at: string;
+  tokenizer: string;
+  tokenBudget: number;
+  tokensBefore: number;        // 压缩前：摘要 + 全部消息
+  tokensAfter: number;         // 压缩后：新摘要 + 保留的消息
+  summarizedMessages: number;  // 被压缩进摘要的消息数
+  keptMessages: number;        // 保留的原始消息数
+};
+
+const DEFAULT_TOKEN_BUDGET = Number(process.env.MEMORY_TOKEN_BUDGET ?? 1000);
+
+// 定义状态：用户、消息列表、摘要、本轮召回与新提炼的长期记忆、token 预算与压缩统计
 const MemoryState = Annotation.Root({
-  messages: Annotation<BaseMessage[]>({ reducer: (x, y) => x.concat(y), default: () => [] }), // 累积所有消息
+  userId: Annotation<string>({ reducer: (x, y) => y ?? x, default: () => "default" }),     // 长期记忆归属的用户
+  messages: Annotation<BaseMessage[]>({ reducer: messagesStateReducer, default: () => [] }), // 短期缓冲：最近的原始消息
   summary: Annotation<string>({ reducer: (x, y) => y ?? x, default: () => "" }),            // 摘要（覆盖式更新）
+  recalled: Annotation<RecallResult[]>({ reducer: (x, y) => y ?? x, default: () => [] }),   // 本轮召回的长期记忆
+  extracted: Annotation<MemoryRecord[]>({ reducer: (x, y) => y ?? x, default: () => [] }),  // 本轮新增或更新的长期记忆
+  tokenBudget: Annotation<number>({ reducer: (x, y) => y ?? x, default: () => DEFAULT_TOKEN_BUDGET }), // 摘要 + 短期缓冲的 token 上限
+  compressions: Annotation<CompressionRecord[]>({ reducer: (x, y) => x.concat(y), default: () => [] }), // 压缩统计（累积）
 });
 
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-const model = new ChatOpenAI({ ...CONFIG, temperature: 0.5 }); // 适中的创造性
+const model = createChatModel("memory", { temperature: 0.5 }); // 适中的创造性
+const extractModel = createChatModel("memory.extract", { temperature: 0 });
+
+const KEEP_RATIO = 0.5;     // 压缩后保留的最近消息最多占预算的比例，其余留给摘要和后续对话
+const RECALL_K = 5;
+
+/**
+ * 本轮新增的用户消息：最后一条 AI 回复之前、上一条 AI 回复之后的用户消息
+ */
+function latestUserMessages(messages: BaseMessage[]): BaseMessage[] {
+  const beforeReply = messages[messages.length - 1]?.getType() === "ai" ? messages.slice(0, -1) : messages;
+  const lastReply = beforeReply.map((m) => m.getType()).lastIndexOf("ai");
+  return beforeReply.slice(lastReply + 1).filter((m) => m.getType() === "human");
+}
+
+/**
+ * 从模型输出中提取第一个 JSON 对象
+ */
+function parseJsonObject<T>(text: string): T {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) throw new Error(`输出不是 JSON 对象：${text.slice(0, 80)}`);
+  return JSON.parse(match[0]) as T;
+}
+
+/**
+ * 召回节点：召回与最新用户消息相关的长期记忆
+ */
+async function recallNode(state: typeof MemoryState.State) {
+  const query = latestUserMessages(state.messages).map((m) => m.content).join("\n");
+  const recalled = await getMemoryStore().recall(state.userId, query || state.summary, RECALL_K);
+  if (recalled.length > 0) {
+    console.log(`\n🧠 [Recall] 为用户 ${state.userId} 召回 ${recalled.length} 条长期记忆`);
+    recalled.forEach(({ memory, score }) => console.log(`   - [${memory.category} ${score.toFixed(2)}] ${memory.text}`));
+  }
+  return { recalled };
+}
 
 /**
- * 对话节点：基于历史消息和摘要生成回复
+ * 对话节点：基于历史消息、摘要和长期记忆生成回复
  * 设计要点：
+ * - 如果有召回的长期记忆，列在 SystemMessage 中，回复时自然地用上
  * - 如果有摘要，将其加入 SystemMessage，保持上下文连续性
- * - 使用所有历史消息作为上下文
+ * - 使用短期缓冲中的所有消息作为上下文
  */
 async function chatNode(state: typeof MemoryState.State) {
-  const { messages, summary } = state;
-  let systemPrompt = "你是一个健谈的 AI 朋友。";
+  const { messages, summary, recalled } = state;
+  let systemPrompt = SYSTEM_PROMPTS.memory_chat.text;
+  if (recalled.length > 0) systemPrompt += `\n你记得关于用户的这些信息:\n${recalled.map(({ memory }) => `- ${memory.text}`).join("\n")}`;
   if (summary) systemPrompt += `\n这是你们之前的聊天摘要: "${summary}"`;
   const response = await model.invoke([new SystemMessage(systemPrompt), ...messages]);
   return { messages: [response] };
 }
 
 /**
- * 摘要节点：压缩历史消息为摘要，并删除旧消息
+ * 提炼节点：从本轮用户消息中提炼值得长期记住的事实，写入长期记忆
+ * 设计要点：
+ * - 只看本轮新增的用户消息，已处理过的消息不会重复提炼
+ * - 已有记忆按编号提供给模型：信息变化时更新（update），用户要求忘记时删除（forget）
+ * - 模型输出无法解析时跳过本轮提炼，不影响对话
+ */
+async function extractNode(state: typeof MemoryState.State, config: RunnableConfig) {
+  const userMessages = latestUserMessages(state.messages);
+  if (userMessages.length === 0) return { extracted: [] };
+
+  const store = getMemoryStore();
+  const existing = await store.list(state.userId);
+  const prompt = `你负责维护关于用户的长期记忆。请从用户的新消息中提炼值得长期记住的信息（身份、所在地、偏好、重要经历等），忽略寒暄和一次性的内容。
+
+已有记忆：
+${existing.map((m, i) => `[${i + 1}] (${m.category}) ${m.text}`).join("\n") || "（无）"}
+
+用户的新消息：
+${userMessages.map((m) => `- ${m.content}`).join("\n")}
+
+要求：
+1. 记忆用第三人称陈述句，如 "用户住在北京"
+2. 分类：profile（姓名、所在地、职业等核心资料）、preference（偏好）、fact（其他事实）
+3. 与已有记忆矛盾时用 update 修改原记忆；用户要求忘记某事时用 forget 删除
+只输出 JSON 对象：{"add": [{"text": "...", "category": "profile"}], "update": [{"index": 1, "text": "..."}], "forget": [2]}`;
+
+  let changes: { add?: { text?: unknown; category?: unknown }[]; update?: { index?: unknown; text?: unknown }[]; forget?: unknown[] };
+  try {
+    const response = await extractModel.invoke([new HumanMessage(prompt)]);
+    changes = parseJsonObject(String(response.content));
+  } catch (error) {
+    console.error("[Memory] 提炼长期记忆失败:", error instanceof Error ? error.message : error);
+    return { extracted: [] };
+  }
+
+  const extracted: MemoryRecord[] = [];
+  const source = config?.configurable?.thread_id as string | undefined;
+  for (const item of Array.isArray(changes.add) ? changes.add : []) {
+    if (typeof item?.text !== "string" || !item.text.trim()) continue;
+    const category = MEMORY_CATEGORIES.includes(item.category as MemoryCategory) ? (item.category as MemoryCategory) : "fact";
+    extracted.push((await store.add(state.userId, item.text.trim(), { category, source })).memory);
+  }
+  for (const item of Array.isArray(changes.update) ? changes.update : []) {
+    const target = existing[Number(item?.index) - 1];
+    if (!target || typeof item.text !== "string" || !item.text.trim()) continue;
+    const updated = await store.update(state.userId, target.id, { text: item.text.trim() });
+    if (updated) extracted.push(updated);
+  }
+  for (const index of Array.isArray(changes.forget) ? changes.forget : []) {
+    const target = existing[Number(index) - 1];
+    if (target && (await store.forget(state.userId, target.id))) console.log(`   🗑️ 已遗忘: ${target.text}`);
+  }
+
+  if (extracted.length > 0) {
+    console.log(`\n📝 [Extract] 更新了 ${extracted.length} 条长期记忆`);
+    extracted.forEach((m) => console.log(`   - [${m.category}] ${m.text}`));
+  }
+  return { extracted };
+}
+
+/**
+ * 当前上下文窗口的 token 数：摘要 + 短期缓冲中的所有消息
+ */
+function windowTokens(messages: BaseMessage[], summary: string) {
+  const tokenizer = getTokenizer();
+  return countMessagesTokens(messages, tokenizer) + (summary ? tokenizer.count(summary) : 0);
+}
+
+/**
+ * 确定保留起点：从最近一轮往前，整轮保留，直到超出 keepBudget
+ * 一轮从用户消息开始；最近一轮即使超出预算也保留，保证模型能看到当前对话
+ * @returns 保留部分在 messages 中的起始下标
+ */
+function keepFromIndex(messages: BaseMessage[], keepBudget: number): number {
+  const tokenizer = getTokenizer();
+  let start = messages.length;
+  let kept = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].getType() !== "human" && i > 0) continue;
+    const turnTokens = countMessagesTokens(messages.slice(i, start), tokenizer);
+    if (start < messages.length && kept + turnTokens > keepBudget) break;
+    kept += turnTokens;
+    start = i;
+  }
+  return start;
+}
+
+/**
+ * 摘要节点：把最早的若干轮对话压缩进摘要，并删除这些消息
  * 设计要点：
- * - 合并旧摘要和新消息，生成新摘要
- * - 使用 RemoveMessage 删除旧消息（保留最近2条）
- * - 摘要保留关键信息，减少 token 使用
+ * - 只压缩超出保留预算的最早部分，最近的轮次保持原文
+ * - 合并旧摘要和被压缩的消息，生成新摘要
+ * - 使用 RemoveMessage 删除被压缩的消息
+ * - 记录压缩前后的 token 数，便于观察压缩效果
  */
 async function summarizeNode(state: typeof MemoryState.State) {
-  const { messages, summary } = state;
-  console.log("\n🧹 [System] 历史消息过长，正在触发记忆压缩...");
-  const summaryPrompt = `这是之前的对话摘要: "${summary}"\n这是新的几句对话:\n${messages.map(m => `${m.getType()}: ${m.content}`).join("\n")}\n请生成一个新的、合并后的简短摘要，涵盖所有关键信息。`;
+  const { messages, summary, tokenBudget } = state;
+  const tokensBefore = windowTokens(messages, summary);
+  const start = keepFromIndex(messages, Math.floor(tokenBudget * KEEP_RATIO));
+  const oldest = messages.slice(0, start);
+  if (oldest.length === 0) {
+    console.log(`\n⚠️ [System] 最近一轮对话已超出 token 预算（${tokensBefore}/${tokenBudget}），无法继续压缩`);
+    return {};
+  }
+
+  console.log(`\n🧹 [System] 上下文 ${tokensBefore} tokens 超出预算 ${tokenBudget}，压缩最早的 ${oldest.length} 条消息...`);
+  const summaryPrompt = `这是之前的对话摘要: "${summary}"\n这是新的几句对话:\n${oldest.map(m => `${m.getType()}: ${m.content}`).join("\n")}\n请生成一个新的、合并后的简短摘要，涵盖所有关键信息。`;
   const response = await model.invoke([new HumanMessage(summaryPrompt)]);
   const newSummary = response.content as string;
-  const deleteMessages = messages.slice(0, -2).map(m => new RemoveMessage({ id: m.id! })); // 删除除最后2条外的所有消息
+  const deleteMessages = oldest.map(m => new RemoveMessage({ id: m.id! })); // 删除已压缩进摘要的消息
+
+  const tokenizer = getTokenizer();
+  const record: CompressionRecord = {
+    at: new Date().toISOString(),
+    tokenizer: tokenizer.name,
+    tokenBudget,
+    tokensBefore,
+    tokensAfter: windowTokens(messages.slice(start), newSummary),
+    summarizedMessages: oldest.length,
+    keptMessages: messages.length - start,
+  };
   console.log(`✅ 新摘要: ${newSummary.slice(0, 30)}...`);
-  return { summary: newSummary, messages: deleteMessages };
+  console.log(`📉 ${record.tokensBefore} -> ${record.tokensAfter} tokens，保留最近 ${record.keptMessages} 条消息`);
+  return { summary: newSummary, messages: deleteMessages, compressions: [record] };
 }
 
 /**
- * 判断是否需要压缩：当消息数量超过阈值时触发摘要
+ * 判断是否需要压缩：摘要与短期缓冲的 token 总数超过预算时触发摘要
  */
 function shouldSummarize(state: typeof MemoryState.State) {
-  return state.messages.length > 6 ? "summarize" : END;
+  return windowTokens(state.messages, state.summary) > state.tokenBudget ? "summarize" : END;
 }
 
 /**
  * 构建工作流图
  * 关键设计：条件触发压缩
- * - 每次对话后检查消息数量
- * - 超过阈值则压缩，否则直接结束
+ * - 每次对话后统计摘要与消息的 token 数
+ * - 超过预算则压缩，否则直接结束
  */
 const workflow = new StateGraph(MemoryState)
+  .addNode("recall", recallNode)             // 召回节点
   .addNode("chat", chatNode)                 // 对话节点
+  .addNode("extract", extractNode)           // 提炼节点
   .addNode("summarize", summarizeNode)        // 摘要节点
-  .addEdge("__start__", "chat")             // 启动对话
-  .addConditionalEdges("chat", shouldSummarize, {  // 条件判断
+  .addEdge("__start__", "recall")           // 先召回长期记忆
+  .addEdge("recall", "chat")                // 再对话
+  .addEdge("chat", "extract")               // 对话后提炼长期记忆
+  .addConditionalEdges("extract", shouldSummarize, {  // 条件判断
     summarize: "summarize",  // 需要压缩
     [END]: END               // 不需要压缩
   })
   .addEdge("summarize", END);                // 压缩完成后结束
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("memory") });
+
+// 导出 app 供服务器使用
+export { app, MemoryState };
 
 async function simulate() {
-  const initialHistory = [
-    new HumanMessage("我叫小明"), new BaseMessage({content: "你好小明", role: "assistant"}),
-    new HumanMessage("喜欢足球"), new BaseMessage({content: "足球很棒", role: "assistant"}),
-    new HumanMessage("住在北京"), new BaseMessage({content: "北京很大", role: "assistant"}),
-    new HumanMessage("测试触发"), 
-  ];
+  const userId = "xiaoming";
+  await getMemoryStore().forgetAll(userId); // 演示从空白记忆开始
+
   console.log("🚀 模拟带记忆的对话...");
-  const result = await app.invoke({ messages: initialHistory });
-  if (result.summary) console.log(`🎉 成功触发记忆压缩！\n最终摘要: ${result.summary}`);
+  const config = threadConfig();
+  const tokenBudget = 80; // 演示用的小预算，几轮对话后即触发压缩
+  let result: typeof MemoryState.State | undefined;
+  for (const text of ["我叫小明", "我喜欢足球", "我住在北京", "测试触发"]) {
+    console.log(`\n👤 ${text}`);
+    result = await app.invoke({ userId, tokenBudget, messages: [new HumanMessage(text)] }, config);
+    console.log(`🤖 ${result.messages[result.messages.length - 1].content}`);
+  }
+  if (result?.summary) {
+    console.log(`\n🎉 成功触发记忆压缩！\n最终摘要: ${result.summary}`);
+    for (const c of result.compressions) {
+      console.log(`   - ${c.tokensBefore} -> ${c.tokensAfter} tokens（${c.tokenizer}），压缩 ${c.summarizedMessages} 条，保留 ${c.keptMessages} 条`);
+    }
+  }
+
+  // 新线程没有短期记忆，只能靠长期记忆回答
+  console.log("\n🚀 新会话：验证跨线程的长期记忆...");
+  const recall = await app.invoke({ userId, messages: [new HumanMessage("你还记得我住在哪里吗？")] }, threadConfig());
+  console.log(`🤖 ${recall.messages[recall.messages.length - 1].content}`);
+  console.log("\n📚 长期记忆:");
+  for (const memory of await getMemoryStore().list(userId)) console.log(`   - [${memory.category}] ${memory.text}`);
+}
+
+// 只在直接运行时执行 simulate 函数
+if (require.main === module) {
+  simulate().catch(console.error);
 }
-simulate().catch(console.error);
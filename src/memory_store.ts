@@ -0,0 +1,286 @@
+/**
+ * 长期记忆存储 (Long-term Memory Store)
+ *
+ * 功能概述：
+ * 按用户保存从对话中提炼出的长期记忆（如 "用户叫小明"、"用户住在北京"），支持语义召回、列出、编辑和遗忘。
+ *
+ * 设计要点：
+ * 1. 分类分层：
+ *    - profile：姓名、所在地等核心资料，每轮对话都注入提示词
+ *    - preference / fact：偏好与其他事实，按与当前消息的语义相似度召回
+ * 2. 一个用户一个文件：<MEMORY_DIR>/<userId>.json，原子写入，便于单独查看或删除某个用户的记忆
+ * 3. 语义召回：复用 RAG 的 embedding 实现（默认本地哈希向量）；embedding 配置变化时自动重新向量化
+ * 4. 去重：新记忆与已有记忆相似度超过 DUPLICATE_THRESHOLD 时视为同一条，更新内容而不是重复添加
+ * 5. 并发写入：添加、编辑、遗忘都在文件锁内重新读取最新内容、修改后写回（与经验库一致），
+ *    接口和智能体同时写同一用户的记忆也不会互相覆盖
+ *    - 所有向量化（包括 embedding 变化后的整体重新向量化）都在加锁之前完成，持锁期间不调用 embedding；
+ *      锁内发现记忆在加锁前后被其他写入者修改、缺少新向量时释放锁重新计算，最多 REEMBED_ATTEMPTS 次
+ *    - 记忆文件损坏时直接报错，不会用空记忆覆盖原文件
+ *
+ * 环境变量：
+ * - MEMORY_DIR：记忆存储目录（默认 ./.memory）
+ */
+
+import { randomUUID } from "crypto";
+import { existsSync, readdirSync, rmSync } from "fs";
+import { join, resolve } from "path";
+import { cosine, createEmbeddings, type EmbeddingProvider } from "./rag_embeddings";
+import { readJsonFile, readJsonFileStrict, withFileLock, writeJsonAtomic } from "./json_file";
+
+type MemoryCategory = "profile" | "preference" | "fact";
+
+type MemoryRecord = {
+  id: string;
+  text: string;               // 第三人称陈述，如 "用户住在北京"
+  category: MemoryCategory;
+  source?: string;            // 提炼出该记忆的线程 ID；手动添加时为空
+  createdAt: string;
+  updatedAt: string;
+};
+
+type StoredMemory = MemoryRecord & { vector: number[] };
+
+type UserMemoryFile = {
+  version: 1;
+  userId: string;
+  embedder: string;
+  memories: StoredMemory[];
+};
+
+type RecallResult = {
+  memory: MemoryRecord;
+  score: number; // 余弦相似度；profile 记忆固定为 1
+};
+
+const MEMORY_CATEGORIES: MemoryCategory[] = ["profile", "preference", "fact"];
+
+// 相似度超过该值视为同一条记忆
+const DUPLICATE_THRESHOLD = 0.85;
+// 重新向量化时，锁内发现记忆已变化的最大重试次数
+const REEMBED_ATTEMPTS = 3;
+
+const defaultMemoryDir = () => resolve(process.env.MEMORY_DIR ?? join(process.cwd(), ".memory"));
+
+const toRecord = ({ vector, ...memory }: StoredMemory): MemoryRecord => memory;
+
+// 向量保留 6 位小数，减小文件体积
+const compact = (vector: number[]) => vector.map((v) => Math.round(v * 1e6) / 1e6);
+
+class MemoryStore {
+  private dir: string;
+  private provider: EmbeddingProvider;
+
+  constructor(dir = defaultMemoryDir(), provider = createEmbeddings()) {
+    this.dir = dir;
+    this.provider = provider;
+  }
+
+  private userPath(userId: string) {
+    return join(this.dir, `${encodeURIComponent(userId)}.json`);
+  }
+
+  /**
+   * 读取用户的记忆文件；文件不存在时返回空文件，内容损坏时抛出异常
+   */
+  private read(userId: string): UserMemoryFile {
+    return readJsonFileStrict<UserMemoryFile>(this.userPath(userId), {
+      version: 1,
+      userId,
+      embedder: this.provider.name,
+      memories: [],
+    });
+  }
+
+  private needsReembed(file: UserMemoryFile) {
+    return file.embedder !== this.provider.name && file.memories.length > 0;
+  }
+
+  /**
+   * embedding 实现变化时，在加锁前为文件中的记忆计算新向量（文本 -> 向量）；未变化时返回空表
+   */
+  private async reembedVectors(file: UserMemoryFile): Promise<Map<string, number[]>> {
+    if (!this.needsReembed(file)) return new Map();
+    console.log(`[Memory] embedding 变化（${file.embedder} -> ${this.provider.name}），重新向量化用户 ${file.userId} 的记忆`);
+    const texts = [...new Set(file.memories.map((m) => m.text))];
+    const vectors = await this.provider.embeddings.embedDocuments(texts);
+    return new Map(texts.map((text, i) => [text, compact(vectors[i])]));
+  }
+
+  /**
+   * 用加锁前算好的向量替换旧向量
+   * @returns 是否替换；有记忆缺少新向量（加锁前后被其他写入者修改）时返回 undefined
+   */
+  private applyVectors(file: UserMemoryFile, vectors: Map<string, number[]>): boolean | undefined {
+    if (!this.needsReembed(file)) return false;
+    if (file.memories.some((m) => !vectors.has(m.text))) return undefined;
+    file.memories = file.memories.map((m) => ({ ...m, vector: vectors.get(m.text)! }));
+    file.embedder = this.provider.name;
+    return true;
+  }
+
+  /**
+   * 持有文件锁执行 读取 -> 修改 -> 写回；mutate 返回 changed=false 时不写文件
+   * embedding 变化时先在锁外重新向量化，锁内只替换向量
+   */
+  private async modify<T>(userId: string, mutate: (file: UserMemoryFile) => { result: T; changed: boolean }): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const vectors = await this.reembedVectors(this.read(userId));
+      const outcome = await withFileLock(this.userPath(userId), () => {
+        const file = this.read(userId);
+        const reembedded = this.applyVectors(file, vectors);
+        if (reembedded === undefined) return undefined;
+        const { result, changed } = mutate(file);
+        if (changed || reembedded) this.save(file);
+        return { result };
+      });
+      if (outcome) return outcome.result;
+      if (attempt >= REEMBED_ATTEMPTS) {
+        throw new Error(`重新向量化用户 ${userId} 的记忆时文件被反复修改，请稍后重试`);
+      }
+    }
+  }
+
+  /**
+   * 读取用户的记忆文件；embedding 实现变化时重新向量化（在加锁前计算）并保存
+   */
+  private async load(userId: string): Promise<UserMemoryFile> {
+    const file = this.read(userId);
+    if (!this.needsReembed(file)) return file;
+    return this.modify<UserMemoryFile>(userId, (latest) => ({ result: latest, changed: false }));
+  }
+
+  private save(file: UserMemoryFile) {
+    writeJsonAtomic(this.userPath(file.userId), file);
+  }
+
+  /**
+   * 有记忆的所有用户
+   */
+  listUsers(): string[] {
+    if (!existsSync(this.dir)) return [];
+    return readdirSync(this.dir)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => decodeURIComponent(file.slice(0, -".json".length)));
+  }
+
+  async list(userId: string): Promise<MemoryRecord[]> {
+    return (await this.load(userId)).memories.map(toRecord);
+  }
+
+  /**
+   * 添加记忆；与已有记忆重复时更新那一条
+   * @returns 新增或被更新的记忆，以及是否为新增
+   */
+  async add(
+    userId: string,
+    text: string,
+    options: { category?: MemoryCategory; source?: string } = {}
+  ): Promise<{ memory: MemoryRecord; created: boolean }> {
+    const vector = compact(await this.provider.embeddings.embedQuery(text));
+    const category = options.category ?? "fact";
+
+    return this.modify<{ memory: MemoryRecord; created: boolean }>(userId, (file) => {
+      const now = new Date().toISOString();
+      const duplicate = file.memories
+        .map((memory) => ({ memory, score: cosine(vector, memory.vector) }))
+        .filter(({ score }) => score >= DUPLICATE_THRESHOLD)
+        .sort((a, b) => b.score - a.score)[0];
+      if (duplicate) {
+        Object.assign(duplicate.memory, { text, category, vector, updatedAt: now });
+        return { result: { memory: toRecord(duplicate.memory), created: false }, changed: true };
+      }
+
+      const memory: StoredMemory = {
+        id: randomUUID(),
+        text,
+        category,
+        source: options.source,
+        createdAt: now,
+        updatedAt: now,
+        vector,
+      };
+      file.memories.push(memory);
+      return { result: { memory: toRecord(memory), created: true }, changed: true };
+    });
+  }
+
+  /**
+   * 编辑记忆内容或分类；记忆不存在时返回 undefined
+   */
+  async update(
+    userId: string,
+    id: string,
+    changes: { text?: string; category?: MemoryCategory }
+  ): Promise<MemoryRecord | undefined> {
+    const vector = changes.text !== undefined ? compact(await this.provider.embeddings.embedQuery(changes.text)) : undefined;
+    return this.modify<MemoryRecord | undefined>(userId, (file) => {
+      const memory = file.memories.find((m) => m.id === id);
+      if (!memory) return { result: undefined, changed: false };
+      if (changes.text !== undefined && vector) {
+        memory.text = changes.text;
+        memory.vector = vector;
+      }
+      if (changes.category) memory.category = changes.category;
+      memory.updatedAt = new Date().toISOString();
+      return { result: toRecord(memory), changed: true };
+    });
+  }
+
+  /**
+   * 遗忘一条记忆；记忆不存在时返回 false
+   */
+  async forget(userId: string, id: string): Promise<boolean> {
+    return this.modify(userId, (file) => {
+      const remaining = file.memories.filter((m) => m.id !== id);
+      if (remaining.length === file.memories.length) return { result: false, changed: false };
+      file.memories = remaining;
+      return { result: true, changed: true };
+    });
+  }
+
+  /**
+   * 遗忘用户的全部记忆（删除文件）
+   * @returns 删除的记忆条数
+   */
+  async forgetAll(userId: string): Promise<number> {
+    const path = this.userPath(userId);
+    return withFileLock(path, () => {
+      if (!existsSync(path)) return 0;
+      // 损坏的文件也允许删除，此时按 0 条计
+      const count = readJsonFile<Partial<UserMemoryFile>>(path, {}).memories?.length ?? 0;
+      rmSync(path);
+      return count;
+    });
+  }
+
+  /**
+   * 召回与查询相关的记忆：profile 记忆全部返回，其余按相似度取 top-k
+   */
+  async recall(userId: string, query: string, k = 5, minScore = 0.15): Promise<RecallResult[]> {
+    const { memories } = await this.load(userId);
+    if (memories.length === 0) return [];
+    const pinned = memories.filter((m) => m.category === "profile").map((m) => ({ memory: toRecord(m), score: 1 }));
+
+    const queryVector = await this.provider.embeddings.embedQuery(query);
+    const related = memories
+      .filter((m) => m.category !== "profile")
+      .map((m) => ({ memory: toRecord(m), score: cosine(queryVector, m.vector) }))
+      .filter(({ score }) => score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+    return [...pinned, ...related];
+  }
+}
+
+let sharedStore: MemoryStore | undefined;
+
+/**
+ * 获取进程内共享的记忆存储
+ */
+function getMemoryStore(): MemoryStore {
+  sharedStore ??= new MemoryStore();
+  return sharedStore;
+}
+
+export { MemoryStore, getMemoryStore, MEMORY_CATEGORIES };
+export type { MemoryRecord, MemoryCategory, RecallResult };
@@ -0,0 +1,259 @@
+/**
+ * 模型提供者 (Model Provider)
+ *
+ * 功能概述：
+ * 为所有智能体提供统一的聊天模型创建入口，替代每个文件里复制粘贴的 CONFIG 对象。
+ * 通过环境变量或配置文件（model.config.json）选择模型提供者、Base URL、模型名以及各角色的 temperature。
+ *
+ * 设计要点：
+ * 1. 角色化：每个智能体用 "agent.role" 形式的角色名申请模型（如 "reflexion.critic"），
+ *    配置文件可以按角色覆盖 model / temperature / baseURL，未配置则回退到 "agent" 再回退到全局配置
+ * 2. 可插拔：provider = "openai" 使用任意 OpenAI 兼容接口；provider = "scripted" 使用离线脚本模型
+ * 3. 离线可运行：脚本模型按规则回放预设回复（assets/scripted_responses.json），结果确定，
+ *    让所有智能体图在无网络的机器上也能完整跑通
+ * 4. 优先级：角色配置 > 环境变量 > 配置文件全局项 > 内置默认值
+ * 5. 工具调用：脚本模型同样支持 bindTools，规则可以声明 toolCalls，用于离线演示 ReAct 类智能体
+ *
+ * 环境变量：
+ * - MODEL_PROVIDER：openai | scripted
+ * - MODEL_BASE_URL：OpenAI 兼容接口地址
+ * - MODEL_NAME：模型名
+ * - MODEL_CONFIG：配置文件路径（默认 ./model.config.json）
+ * - SCRIPTED_RESPONSES：脚本回复文件路径（默认 ./assets/scripted_responses.json）
+ */
+
+import "dotenv/config";
+import { randomUUID } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BaseChatModelParams,
+  type BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import { AIMessage, AIMessageChunk, ToolMessage, type BaseMessage } from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import { convertToOpenAITool } from "@langchain/core/utils/function_calling";
+import { ChatOpenAI } from "@langchain/openai";
+
+type ProviderName = "openai" | "scripted";
+
+type RoleConfig = {
+  model?: string;
+  temperature?: number;
+  baseURL?: string;
+};
+
+// 检索使用的 embedding 配置（见 rag_embeddings.ts）
+type EmbeddingsConfig = {
+  provider?: "local" | "openai";
+  model?: string;
+  baseURL?: string;
+  dimensions?: number; // 本地哈希向量的维度
+};
+
+type ModelConfigFile = {
+  provider?: ProviderName;
+  baseURL?: string;
+  model?: string;
+  roles?: Record<string, RoleConfig>;
+  scripted?: { responsesPath?: string };
+  embeddings?: EmbeddingsConfig;
+};
+
+/**
+ * 脚本回复规则
+ * - role：角色名或其前缀（"tot" 可匹配 "tot.propose"），省略表示任意角色
+ * - match：正则表达式，匹配整段提示词（所有消息拼接后的文本），省略表示总是匹配
+ * - response / responses：固定回复，或按调用顺序轮流返回的回复序列
+ * - toolCalls：返回工具调用而不是文本；只在模型绑定了同名工具、且最后一条消息不是工具结果时生效，
+ *   拿到工具结果后继续匹配后面的规则，从而模拟 "调用工具 -> 根据结果作答"
+ */
+type ScriptedRule = {
+  role?: string;
+  match?: string;
+  response?: string;
+  responses?: string[];
+  toolCalls?: { name: string; args: Record<string, unknown> }[];
+};
+
+type ScriptedCallOptions = BaseChatModelCallOptions & {
+  tools?: BindToolsInput[];
+};
+
+// createChatModel 返回的具体模型类型（不向上转型为 BaseChatModel，保留类型检查）
+type ChatModel = ChatOpenAI | ScriptedChatModel;
+
+const DEFAULTS = {
+  provider: "openai" as ProviderName,
+  baseURL: "https://api.moonshot.cn/v1",
+  model: "kimi-k2-turbo-preview",
+  responsesPath: "assets/scripted_responses.json",
+};
+
+let cachedConfig: ModelConfigFile | undefined;
+
+/**
+ * 加载模型配置文件（只加载一次）
+ * 文件不存在时返回空配置，完全依赖环境变量和默认值
+ */
+function loadModelConfig(): ModelConfigFile {
+  if (cachedConfig) return cachedConfig;
+  const configPath = process.env.MODEL_CONFIG ?? join(process.cwd(), "model.config.json");
+  if (!existsSync(configPath)) {
+    cachedConfig = {};
+    return cachedConfig;
+  }
+  const parsed = JSON.parse(readFileSync(configPath, "utf-8")) as ModelConfigFile;
+  if (!parsed || typeof parsed !== "object") {
+    throw new Error(`模型配置文件格式不正确：path=${configPath}`);
+  }
+  cachedConfig = parsed;
+  return cachedConfig;
+}
+
+/**
+ * 查找角色配置：先精确匹配 "agent.role"，再回退到 "agent"
+ */
+function resolveRoleConfig(config: ModelConfigFile, role: string): RoleConfig {
+  const roles = config.roles ?? {};
+  const agent = role.split(".")[0];
+  return { ...(roles[agent] ?? {}), ...(roles[role] ?? {}) };
+}
+
+/**
+ * 提取消息的纯文本（多模态消息只保留 text 部分）
+ */
+function messageText(message: BaseMessage): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .map((part) => ("text" in part && typeof part.text === "string" ? part.text : ""))
+    .join("");
+}
+
+/**
+ * 脚本模型：离线、确定性的聊天模型
+ * 设计要点：
+ * - 按规则顺序匹配，第一条命中的规则决定回复
+ * - responses 序列按调用次数轮流返回，便于模拟 "先调研、再写作、最后结束" 这类多轮决策
+ * - 支持流式输出，逐段产出 token，和真实模型的流式行为一致
+ */
+class ScriptedChatModel extends BaseChatModel<ScriptedCallOptions> {
+  private role: string;
+  private rules: ScriptedRule[];
+  private cursors = new Map<ScriptedRule, number>();
+
+  constructor(fields: { role: string; rules: ScriptedRule[] } & BaseChatModelParams) {
+    super(fields);
+    this.role = fields.role;
+    this.rules = fields.rules;
+  }
+
+  _llmType() {
+    return "scripted";
+  }
+
+  bindTools(tools: BindToolsInput[], kwargs?: Partial<ScriptedCallOptions>) {
+    return this.withConfig({ ...kwargs, tools });
+  }
+
+  private pickResponse(messages: BaseMessage[], boundTools: string[] = []): { text: string; toolCalls: ToolCall[] } {
+    const prompt = messages.map(messageText).join("\n");
+    const afterToolResult = messages[messages.length - 1] instanceof ToolMessage;
+    for (const rule of this.rules) {
+      if (rule.role && rule.role !== this.role && !this.role.startsWith(`${rule.role}.`)) continue;
+      if (rule.match && !new RegExp(rule.match).test(prompt)) continue;
+      if (rule.toolCalls) {
+        if (afterToolResult || !rule.toolCalls.every((call) => boundTools.includes(call.name))) continue;
+        const toolCalls = rule.toolCalls.map((call) => ({ ...call, id: `call_${randomUUID()}`, type: "tool_call" as const }));
+        return { text: "", toolCalls };
+      }
+      if (rule.responses && rule.responses.length > 0) {
+        const cursor = this.cursors.get(rule) ?? 0;
+        this.cursors.set(rule, cursor + 1);
+        return { text: rule.responses[cursor % rule.responses.length], toolCalls: [] };
+      }
+      if (rule.response !== undefined) return { text: rule.response, toolCalls: [] };
+    }
+    const last = messages.length > 0 ? messageText(messages[messages.length - 1]) : "";
+    return { text: `[scripted:${this.role}] 离线模式示例回复：${last.slice(0, 40)}`, toolCalls: [] };
+  }
+
+  private boundToolNames(options: this["ParsedCallOptions"]) {
+    return (options.tools ?? []).map((tool) => convertToOpenAITool(tool).function.name);
+  }
+
+  async _generate(messages: BaseMessage[], options: this["ParsedCallOptions"]): Promise<ChatResult> {
+    const { text, toolCalls } = this.pickResponse(messages, this.boundToolNames(options));
+    return { generations: [{ text, message: new AIMessage({ content: text, tool_calls: toolCalls }) }] };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const { text, toolCalls } = this.pickResponse(messages, this.boundToolNames(options));
+    if (toolCalls.length > 0) {
+      const tool_call_chunks = toolCalls.map((call, index) => ({ name: call.name, args: JSON.stringify(call.args), id: call.id, index }));
+      yield new ChatGenerationChunk({ text: "", message: new AIMessageChunk({ content: "", tool_call_chunks }) });
+      return;
+    }
+    for (let i = 0; i < text.length; i += 4) {
+      const piece = text.slice(i, i + 4);
+      const chunk = new ChatGenerationChunk({ text: piece, message: new AIMessageChunk({ content: piece }) });
+      yield chunk;
+      await runManager?.handleLLMNewToken(piece);
+    }
+  }
+}
+
+let cachedRules: ScriptedRule[] | undefined;
+
+/**
+ * 加载脚本回复规则（只加载一次）
+ */
+function loadScriptedRules(config: ModelConfigFile): ScriptedRule[] {
+  if (cachedRules) return cachedRules;
+  const rulesPath = process.env.SCRIPTED_RESPONSES ?? join(process.cwd(), config.scripted?.responsesPath ?? DEFAULTS.responsesPath);
+  if (!existsSync(rulesPath)) {
+    cachedRules = [];
+    return cachedRules;
+  }
+  const parsed = JSON.parse(readFileSync(rulesPath, "utf-8"));
+  // 兼容两种格式：规则数组或对象格式 { "rules": [...] }
+  cachedRules = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.rules) ? parsed.rules : [];
+  return cachedRules!;
+}
+
+/**
+ * 创建聊天模型
+ * @param role 角色名，格式为 "agent" 或 "agent.role"，用于查找角色配置和脚本规则
+ * @param defaults 代码中的默认参数（如 temperature），可被角色配置覆盖
+ */
+function createChatModel(role: string, defaults: { temperature?: number } = {}): ChatModel {
+  const config = loadModelConfig();
+  const roleConfig = resolveRoleConfig(config, role);
+  const provider = (process.env.MODEL_PROVIDER as ProviderName | undefined) ?? config.provider ?? DEFAULTS.provider;
+
+  if (provider === "scripted") {
+    return new ScriptedChatModel({ role, rules: loadScriptedRules(config) });
+  }
+  if (provider !== "openai") {
+    throw new Error(`未知的模型提供者：${String(provider)}（可选 openai | scripted）`);
+  }
+
+  const model = new ChatOpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+    configuration: { baseURL: roleConfig.baseURL ?? process.env.MODEL_BASE_URL ?? config.baseURL ?? DEFAULTS.baseURL },
+    modelName: roleConfig.model ?? process.env.MODEL_NAME ?? config.model ?? DEFAULTS.model,
+    temperature: roleConfig.temperature ?? defaults.temperature,
+  });
+  return model;
+}
+
+export { createChatModel, loadModelConfig, ScriptedChatModel };
+export type { ChatModel, EmbeddingsConfig, ModelConfigFile, RoleConfig, ScriptedRule };
@@ -6,7 +6,8 @@
  * 能够识别物体、理解场景、分析细节、提取文字等。
  * 
  * 设计要点：
- * 1. 图片加载：从文件路径读取图片并转换为 base64 编码
+ * 1. 图片加载：从文件路径读取图片并转换为 base64 编码；只允许读取 IMAGE_DIR（默认 assets/）内的图片，
+ *    先检查格式和目录再检查文件是否存在，通过 HTTP / MCP 调用时无法探测或读取服务器上的其他文件
  * 2. 多模态输入：使用 LangChain 的 HumanMessage 传递图片和文本
  * 3. Vision 模型：使用 Moonshot Vision API 进行图片理解
  * 4. 问答能力：基于图片内容回答用户问题
@@ -25,14 +26,18 @@
  * - 支持图片 URL 输入
  * - 添加图片预处理（裁剪、缩放等）
  * - 实现图片分类和标签生成
+ *
+ * 环境变量：
+ * - MULTIMODAL_IMAGE_DIR：允许读取的图片目录（默认 ./assets）
  */
 
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
 import { HumanMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel } from "./model_provider";
+import { getCheckpointer, threadConfig } from "./checkpointer";
 import { readFileSync, existsSync } from "fs";
-import { extname } from "path";
+import { extname, join, resolve, sep } from "path";
 
 // 定义状态：图片路径、用户问题、base64 编码的图片、分析结果
 const MultimodalState = Annotation.Root({
@@ -45,13 +50,10 @@ const MultimodalState = Annotation.Root({
 // 支持的图片格式
 const SUPPORTED_FORMATS = [".jpg", ".jpeg", ".png", ".gif", ".webp"];
 
-// 模型配置：使用 Moonshot Vision API
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "moonshot-v1-128k-vision-preview", // 使用 Vision 模型
-};
-const model = new ChatOpenAI({ ...CONFIG, temperature: 0.3 }); // 适中的 temperature 平衡准确性和创造性
+// 允许读取的图片目录；相对路径相对于该目录解析
+const IMAGE_DIR = resolve(process.env.MULTIMODAL_IMAGE_DIR ?? join(__dirname, "../assets"));
+
+const model = createChatModel("multimodal", { temperature: 0.3 }); // 适中的 temperature 平衡准确性和创造性
 
 /**
  * 获取图片的 MIME 类型
@@ -70,23 +72,30 @@ const getImageMimeType = (filePath: string): string => {
 };
 
 /**
- * 验证图片文件
+ * 验证图片文件，返回解析后的绝对路径
  * 设计要点：
- * - 检查文件是否存在
  * - 验证文件格式是否支持
+ * - 路径必须在 IMAGE_DIR 内（与 MCP 资源相同的越界检查）
+ * - 最后才检查文件是否存在，目录外的路径不会暴露文件是否存在
  * - 提供清晰的错误信息
  */
-const validateImageFile = (filePath: string): void => {
-  if (!existsSync(filePath)) {
-    throw new Error(`图片文件不存在: ${filePath}`);
-  }
-
-  const ext = extname(filePath).toLowerCase();
+const validateImageFile = (imagePath: string): string => {
+  const ext = extname(imagePath).toLowerCase();
   if (!SUPPORTED_FORMATS.includes(ext)) {
     throw new Error(
       `不支持的图片格式: ${ext}。支持的格式: ${SUPPORTED_FORMATS.join(", ")}`
     );
   }
+
+  const filePath = resolve(IMAGE_DIR, imagePath);
+  if (!filePath.startsWith(IMAGE_DIR + sep)) {
+    throw new Error(`图片路径必须在图片目录内: ${imagePath}`);
+  }
+
+  if (!existsSync(filePath)) {
+    throw new Error(`图片文件不存在: ${imagePath}`);
+  }
+  return filePath;
 };
 
 /**
@@ -102,12 +111,12 @@ const loadImageNode = async (state: typeof MultimodalState.State) => {
 
   try {
     // 验证文件
-    validateImageFile(imagePath);
+    const filePath = validateImageFile(imagePath);
 
     // 读取文件并转换为 base64
-    const imageBuffer = readFileSync(imagePath);
+    const imageBuffer = readFileSync(filePath);
     const base64Image = imageBuffer.toString("base64");
-    const mimeType = getImageMimeType(imagePath);
+    const mimeType = getImageMimeType(filePath);
     const dataUrl = `data:${mimeType};base64,${base64Image}`;
 
     console.log(`✅ 图片加载成功，大小: ${(imageBuffer.length / 1024).toFixed(2)} KB`);
@@ -170,7 +179,7 @@ const workflow = new StateGraph(MultimodalState)
   .addEdge("loadImage", "analyzeImage")     // 加载完成后进行分析
   .addEdge("analyzeImage", END);            // 分析完成后结束
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("multimodal") });
 
 /**
  * 主函数：演示多模态图片识别功能
@@ -180,7 +189,7 @@ async function main() {
   // 注意：需要提供实际的图片文件路径
   const testCases = [
     {
-      imagePath: require("path").resolve(__dirname, "../assets/image.png"), // 使用绝对路径
+      imagePath: "image.png", // 相对于图片目录（默认 assets/）
       question: "把这张图变成黑白线稿图",
     },
 
@@ -197,10 +206,13 @@ async function main() {
       console.log(`❓ 问题: ${testCase.question}`);
       console.log(`${"=".repeat(60)}`);
 
-      const result = await app.invoke({
-        imagePath: testCase.imagePath,
-        question: testCase.question,
-      });
+      const result = await app.invoke(
+        {
+          imagePath: testCase.imagePath,
+          question: testCase.question,
+        },
+        threadConfig()
+      );
 
       console.log(`\n💬 回答:\n${result.answer}`);
     } catch (error) {
@@ -20,7 +20,9 @@
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel } from "./model_provider";
+import { SYSTEM_PROMPTS } from "./agent_prompts";
+import { getCheckpointer, threadConfig } from "./checkpointer";
 
 // 定义状态结构：包含主题、支持观点、反对观点和最终总结
 const ParallelState = Annotation.Root({
@@ -30,13 +32,7 @@ const ParallelState = Annotation.Root({
   finalSummary: Annotation<string>,            // 综合总结
 });
 
-// LLM 配置：使用 Moonshot API (Kimi 模型)
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-const model = new ChatOpenAI({ ...CONFIG, temperature: 0.7 }); // temperature=0.7 允许一定创造性
+const model = createChatModel("parallel", { temperature: 0.7 }); // temperature=0.7 允许一定创造性
 
 /**
  * 正面分析节点：从乐观角度分析主题的优点
@@ -45,7 +41,7 @@ const model = new ChatOpenAI({ ...CONFIG, temperature: 0.7 }); // temperature=0.
 async function positiveNode(state: typeof ParallelState.State) {
   console.log("🟢 [Positive Agent] 正在生成支持观点...");
   const response = await model.invoke([
-    new SystemMessage("你是一个乐观主义者。请列出该主题的3个主要优点。"),
+    new SystemMessage(SYSTEM_PROMPTS.parallel_positive.text),
     new HumanMessage(state.topic)
   ]);
   return { pros: response.content as string };
@@ -58,7 +54,7 @@ async function positiveNode(state: typeof ParallelState.State) {
 async function negativeNode(state: typeof ParallelState.State) {
   console.log("🔴 [Negative Agent] 正在生成反对观点...");
   const response = await model.invoke([
-    new SystemMessage("你是一个批判性思维者。请列出该主题的3个潜在风险或缺点。"),
+    new SystemMessage(SYSTEM_PROMPTS.parallel_negative.text),
     new HumanMessage(state.topic)
   ]);
   return { cons: response.content as string };
@@ -91,16 +87,16 @@ const workflow = new StateGraph(ParallelState)
   .addEdge("negative", "aggregator")
   .addEdge("aggregator", END);            // 完成
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("parallel") });
 
 // 导出 app 供服务器使用
-export { app };
+export { app, ParallelState };
 
 // 只在直接运行时执行 main 函数
 async function main() {
   const topic = "AI 是否会完全取代程序员";
   console.log(`🚀 开始并行辩论，主题: ${topic}`);
-  const result = await app.invoke({ topic });
+  const result = await app.invoke({ topic }, threadConfig());
   console.log("\n====== 🟢 正方 ======"); console.log(result.pros);
   console.log("\n====== 🔴 反方 ======"); console.log(result.cons);
   console.log("\n====== 🔗 综合总结 ======"); console.log(result.finalSummary);
@@ -1,17 +1,25 @@
 /**
  * 规划智能体 (Planning Agent)
- * 
+ *
  * 功能概述：
- * 先制定计划，然后循环执行计划中的每个步骤，最后整合所有结果。
- * 实现"规划-执行-整合"的智能任务处理模式。
- * 
+ * 先制定计划，然后按依赖关系执行计划中的步骤，每执行完一批就根据结果修订剩余计划，最后整合所有结果。
+ * 实现"规划-执行-重规划-整合"的智能任务处理模式。
+ *
  * 设计要点：
- * 1. 动态规划：使用 LLM 生成任务步骤，而非硬编码
- * 2. 循环执行：使用条件边实现循环，直到计划执行完毕
- * 3. 上下文累积：pastSteps 数组累积所有步骤的结果，供后续步骤参考
- * 4. 状态管理：plan 数组逐步减少，pastSteps 逐步增加
- * 5. 工作流模式：Start -> Planner -> Executor (循环) -> Responder -> End
- * 
+ * 1. 动态规划：使用 LLM 生成任务步骤，而非硬编码；每个步骤带 ID 和依赖（dependsOn）
+ * 2. 依赖调度：依赖全部完成的步骤才可执行，互不依赖的步骤同一批并行执行（最多 MAX_PARALLEL 个）
+ * 3. 重规划：每批执行完后，replanner 根据已有结果增加、删除或调整剩余步骤（最多 MAX_REPLANS 次）
+ * 4. 步骤状态：pending -> running -> done / failed，全部记录在 steps 中；
+ *    running 在执行前写入检查点，中途崩溃后恢复时会重新执行这些步骤
+ * 5. 上下文累积：pastSteps 数组累积所有步骤的结果（含工具调用结果），执行时只把所依赖步骤的结果作为上下文
+ * 6. 工具调用：执行步骤时模型可以调用工具（最多 MAX_TOOL_ROUNDS 轮）——本地沙箱代码运行、工作区文件读写（local_tools.ts），
+ *    以及 mcp.config.json 中除 <name>_agent 以外的 MCP 工具（避免步骤再调用智能体、层层启动新的 MCP Server）；
+ *    工具在执行步骤时加载，MCP 加载失败时只使用本地工具；没有步骤在执行且空闲 EXECUTOR_TOOLS_IDLE_MS 后关闭 MCP Server 进程
+ * 7. 工作流模式：Start -> Planner -> (Dispatch -> Executor -> Replanner)* -> Responder -> End
+ *
+ * 环境变量：
+ * - PLANNING_MCP_TOOLS：设为 off 时执行步骤不加载 MCP 工具
+ *
  * 适用场景：
  * - 复杂任务分解（如"写论文"需要：研究 -> 大纲 -> 写作 -> 修改）
  * - 多步骤问题解决（如"搭建网站"需要：设计 -> 开发 -> 测试 -> 部署）
@@ -20,100 +28,390 @@
 
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
-import { HumanMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { AIMessage, HumanMessage, ToolMessage, type BaseMessage } from "@langchain/core/messages";
+import type { StructuredToolInterface } from "@langchain/core/tools";
+import { createChatModel } from "./model_provider";
+import { getCheckpointer, resumeOrInvoke } from "./checkpointer";
+import { invokeStructured, schema, type Infer } from "./structured_output";
+import { createLocalTools } from "./local_tools";
+import { loadMcpTools } from "./mcp_tools";
 
-// 定义状态：目标、计划列表、已执行步骤、最终响应
+type StepStatus = "pending" | "running" | "done" | "failed";
+
+type StepToolCall = {
+  tool: string;
+  args: Record<string, unknown>;
+  result?: string;
+  error?: string;
+};
+
+type PlanStep = {
+  id: string;            // 如 "s1"
+  description: string;
+  dependsOn: string[];   // 必须先完成的步骤 ID
+  status: StepStatus;
+  result?: string;
+  error?: string;
+  toolCalls?: StepToolCall[]; // 执行步骤时的工具调用及结果
+};
+
+const MAX_PARALLEL = 3; // 同一批最多并行执行的步骤数
+const MAX_STEPS = 6;    // 最多执行的步骤数，防止重规划无限追加步骤
+const MAX_REPLANS = 5;  // 最多重规划次数
+const MAX_TOOL_ROUNDS = 4; // 每个步骤最多的工具调用轮数
+const TOOL_OUTPUT_PREVIEW = 500; // 写入 pastSteps 的单次工具结果最大长度
+const EXECUTOR_TOOLS_IDLE_MS = 30_000; // 执行步骤的 MCP 工具空闲多久后关闭
+const AGENT_TOOL_PATTERN = /_agent$/; // 智能体工具（server/mcp_server.ts 中的 <name>_agent），不交给执行步骤
+
+// 定义状态：目标、计划步骤（含状态）、已执行步骤结果、重规划次数、最终响应
 const PlanningState = Annotation.Root({
   objective: Annotation<string>,                                                      // 用户目标
-  plan: Annotation<string[]>({ reducer: (x, y) => y ?? x, default: () => [] }),      // 计划步骤列表（逐步减少）
+  steps: Annotation<PlanStep[]>({ reducer: (x, y) => y ?? x, default: () => [] }),   // 计划步骤及其状态（每次整体替换）
   pastSteps: Annotation<string[]>({ reducer: (x, y) => x.concat(y), default: () => [] }), // 已执行步骤结果（逐步增加）
+  replans: Annotation<number>({ reducer: (x, y) => y ?? x, default: () => 0 }),      // 已重规划次数
   response: Annotation<string>,                                                       // 最终整合的响应
 });
 
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
+const model = createChatModel("planning", { temperature: 0 }); // temperature=0 确保计划生成的确定性
+const replanModel = createChatModel("planning.replan", { temperature: 0 });
+const executorModel = createChatModel("planning.executor", { temperature: 0 });
+
+let executorTools: Promise<{ tools: StructuredToolInterface[]; close: () => Promise<void> }> | undefined;
+let activeBatches = 0; // 正在使用工具的执行批次数（服务器中多个线程可能同时执行）
+let idleTimer: NodeJS.Timeout | undefined;
+
+/**
+ * 加载执行步骤可用的工具（只加载一次，同一批并行的步骤共享）
+ */
+function getExecutorTools() {
+  executorTools ??= (async () => {
+    const localTools = createLocalTools();
+    if (process.env.PLANNING_MCP_TOOLS === "off") return { tools: localTools, close: async () => {} };
+    try {
+      const mcp = await loadMcpTools();
+      const tools = mcp.tools.filter((t) => !AGENT_TOOL_PATTERN.test(t.name));
+      return { tools: [...localTools, ...tools], close: mcp.close };
+    } catch (error) {
+      console.error("[Executor] MCP 工具加载失败，只使用本地工具:", error instanceof Error ? error.message : error);
+      return { tools: localTools, close: async () => {} };
+    }
+  })();
+  return executorTools;
+}
+
+/**
+ * 开始 / 结束一批步骤的执行：最后一批结束后开始计时，空闲超时后关闭工具
+ * 计时器不阻止进程退出
+ */
+function acquireExecutorTools() {
+  clearTimeout(idleTimer);
+  activeBatches++;
+}
+
+function releaseExecutorTools() {
+  if (--activeBatches > 0) return;
+  idleTimer = setTimeout(() => {
+    closeExecutorTools().catch((error) => console.error("[Executor] 关闭 MCP 工具失败:", error));
+  }, EXECUTOR_TOOLS_IDLE_MS);
+  idleTimer.unref();
+}
+
+/**
+ * 关闭执行步骤时启动的 MCP Server 进程（进程退出前调用，或空闲超时后自动调用）
+ */
+async function closeExecutorTools() {
+  clearTimeout(idleTimer);
+  if (!executorTools) return;
+  const { close } = await executorTools;
+  executorTools = undefined;
+  await close();
+}
+
+const StepSchema = schema.object({
+  id: schema.string({ description: "步骤 ID，如 s1" }),
+  description: schema.string({ description: "一句可独立执行的步骤描述" }),
+  dependsOn: schema.optional(schema.array(schema.string({ description: "依赖的步骤 ID" }))),
+});
+
+// 计划的输出结构：带 ID 和依赖的步骤数组（不含标题、编号）
+const PlanSchema = schema.object({
+  steps: schema.array(StepSchema, { min: 1, max: MAX_STEPS }),
+});
+
+// 重规划的输出结构：changed 为 false 表示保持原计划，否则 remaining 为新的剩余步骤（完整列表）
+const ReplanSchema = schema.object({
+  changed: schema.boolean(),
+  remaining: schema.optional(schema.array(StepSchema, { max: MAX_STEPS })),
+  reason: schema.optional(schema.string({ description: "调整原因" })),
+});
+
+const formatStep = (step: PlanStep) =>
+  `- ${step.id} [${step.status}] ${step.description}${step.dependsOn.length > 0 ? `（依赖 ${step.dependsOn.join(", ")}）` : ""}`;
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max)}...` : text);
+
+/**
+ * 步骤的执行结果，附带工具调用记录
+ */
+const formatStepOutput = (step: PlanStep) => {
+  const calls = (step.toolCalls ?? []).map(
+    (call) => `  - ${call.tool} ${JSON.stringify(call.args)} => ${call.error ? `错误: ${call.error}` : truncate(call.result ?? "", TOOL_OUTPUT_PREVIEW)}`
+  );
+  return calls.length > 0 ? `${step.result}\n  工具调用:\n${calls.join("\n")}` : `${step.result}`;
 };
-const model = new ChatOpenAI({ ...CONFIG, temperature: 0 }); // temperature=0 确保计划生成的确定性
+
+/**
+ * 把模型给出的步骤转换为 pending 状态的 PlanStep
+ * - 与已有步骤重复或缺失的 ID 重新编号
+ * - 依赖只能指向已有步骤或本列表中排在前面的步骤，其余依赖丢弃，保证不会出现循环依赖
+ */
+function toPendingSteps(raw: Infer<typeof StepSchema>[], existing: PlanStep[]): PlanStep[] {
+  const known = new Set(existing.map((s) => s.id));
+  let counter = existing.length;
+  const steps: PlanStep[] = [];
+  for (const item of raw) {
+    let id = item.id;
+    while (known.has(id)) id = `s${++counter}`;
+    known.add(id);
+    const dependsOn = [...new Set(item.dependsOn ?? [])].filter((dep) => {
+      const ok = existing.some((s) => s.id === dep) || steps.some((s) => s.id === dep);
+      if (!ok) console.log(`   ⚠️ 步骤 ${id} 的依赖 ${dep} 不存在或排在其后，已忽略`);
+      return ok;
+    });
+    steps.push({ id, description: item.description, dependsOn, status: "pending" });
+  }
+  return steps;
+}
 
 /**
  * 规划节点：根据目标生成执行计划
- * 设计要点：将复杂目标分解为可执行的步骤列表
+ * 设计要点：
+ * - 将复杂目标分解为可执行的步骤列表，并标明步骤之间的依赖
+ * - 按 PlanSchema 输出 JSON，避免把 "计划如下：" 之类的标题行当成步骤
  */
 async function plannerNode(state: typeof PlanningState.State) {
   const { objective } = state;
   console.log(`\n📝 [Planner] 正在制定计划: "${objective}"...`);
-  const prompt = `你是一个任务规划专家。\n目标: ${objective}\n请生成一个简短的步骤清单来实现这个目标。要求：最多 3-4 个步骤。返回格式必须是纯文本的列表，每行一个步骤。`;
-  const response = await model.invoke([new HumanMessage(prompt)]);
-  const plan = response.content.toString().split('\n').filter(line => line.trim().length > 0);
-  console.log(`📋 计划生成完毕，共 ${plan.length} 步。`);
-  return { plan };
+  const prompt = `你是一个任务规划专家。\n目标: ${objective}
+请生成一个简短的步骤清单来实现这个目标。要求：最多 3-4 个步骤，每个步骤不带编号。
+每个步骤给出 ID（s1、s2...）；需要用到其他步骤结果的，在 dependsOn 中列出那些步骤的 ID，互不依赖的步骤会并行执行。`;
+  const { steps: raw } = await invokeStructured(model, prompt, PlanSchema, { label: "计划生成" });
+  const steps = toPendingSteps(raw, []);
+  console.log(`📋 计划生成完毕，共 ${steps.length} 步：\n${steps.map(formatStep).join("\n")}`);
+  return { steps };
 }
 
 /**
- * 执行节点：执行计划中的当前步骤
+ * 调度节点：找出依赖已全部完成的步骤，标记为 running
  * 设计要点：
- * - 每次执行 plan[0]，执行后从 plan 中移除（plan.slice(1)）
- * - 将执行结果添加到 pastSteps，供后续步骤参考
- * - 使用 pastSteps 构建上下文，实现步骤间的信息传递
+ * - 依赖失败的步骤无法执行，直接标记为 failed
+ * - 已执行步骤数达到 MAX_STEPS 后不再启动新步骤
+ */
+async function dispatchNode(state: typeof PlanningState.State) {
+  const steps = state.steps.map((s) => ({ ...s }));
+  const byId = new Map(steps.map((s) => [s.id, s]));
+
+  for (const step of steps.filter((s) => s.status === "pending")) {
+    const failed = step.dependsOn.find((dep) => byId.get(dep)?.status === "failed");
+    if (failed) Object.assign(step, { status: "failed", error: `依赖的步骤 ${failed} 失败` });
+  }
+
+  const started = steps.filter((s) => s.status !== "pending").length;
+  const ready = steps
+    .filter((s) => s.status === "pending" && s.dependsOn.every((dep) => byId.get(dep)?.status === "done"))
+    .slice(0, Math.max(0, Math.min(MAX_PARALLEL, MAX_STEPS - started)));
+  ready.forEach((s) => (s.status = "running"));
+
+  if (ready.length > 0) {
+    console.log(`\n🚦 [Dispatch] 本批执行 ${ready.length} 个步骤: ${ready.map((s) => s.id).join(", ")}`);
+  } else if (started >= MAX_STEPS) {
+    console.log(`\n🚦 [Dispatch] 已达到步骤上限 ${MAX_STEPS}，剩余步骤不再执行`);
+  }
+  return { steps };
+}
+
+/**
+ * 执行单个步骤：只把所依赖步骤的结果作为上下文
+ * 设计要点：
+ * - 模型可以调用工具，工具结果以 ToolMessage 返回后继续推理，直到不再调用工具
+ * - 工具执行失败时把错误信息作为工具结果交给模型，由模型决定重试或换一种方式
+ * - 超过 MAX_TOOL_ROUNDS 轮后不再绑定工具，强制模型基于已有结果作答
+ */
+async function executeStep(step: PlanStep, steps: PlanStep[], objective: string): Promise<{ result: string; toolCalls: StepToolCall[] }> {
+  const context = step.dependsOn
+    .map((dep) => steps.find((s) => s.id === dep))
+    .filter((s): s is PlanStep => !!s)
+    .map((s) => `步骤 ${s.id}（${s.description}）结果: ${formatStepOutput(s)}`)
+    .join("\n");
+  const prompt = `总目标: ${objective}\n请执行以下任务: "${step.description}"\n${context ? `这是之前的步骤产生的信息(供参考):\n${context}\n` : ""}需要运行代码、读写文件或查询外部信息时可以调用工具，工作区中的文件路径使用相对路径。\n请仅返回当前任务的执行结果。`;
+
+  const { tools } = await getExecutorTools();
+  const modelWithTools = executorModel.bindTools(tools);
+  const messages: BaseMessage[] = [new HumanMessage(prompt)];
+  const toolCalls: StepToolCall[] = [];
+
+  for (let round = 0; ; round++) {
+    const exhausted = round >= MAX_TOOL_ROUNDS;
+    const response = (exhausted ? await executorModel.invoke(messages) : await modelWithTools.invoke(messages)) as AIMessage;
+    messages.push(response);
+    if (!response.tool_calls || response.tool_calls.length === 0) {
+      return { result: String(response.content), toolCalls };
+    }
+
+    for (const call of response.tool_calls) {
+      console.log(`   🔧 [${step.id}] 调用工具 ${call.name}: ${truncate(JSON.stringify(call.args), 80)}`);
+      const record: StepToolCall = { tool: call.name, args: call.args };
+      const target = tools.find((t) => t.name === call.name);
+      try {
+        if (!target) throw new Error(`工具不存在: ${call.name}`);
+        record.result = String(await target.invoke(call.args));
+        console.log(`   📦 [${step.id}] 工具结果: ${truncate(record.result, 80)}`);
+      } catch (error) {
+        record.error = error instanceof Error ? error.message : String(error);
+        console.log(`   ⚠️ [${step.id}] 工具失败: ${truncate(record.error, 80)}`);
+      }
+      toolCalls.push(record);
+      messages.push(
+        new ToolMessage({ content: record.error ? `错误: ${record.error}` : record.result!, tool_call_id: call.id ?? "", name: call.name })
+      );
+    }
+  }
+}
+
+/**
+ * 执行节点：并行执行所有 running 状态的步骤
+ * 设计要点：
+ * - 单个步骤失败只把该步骤标记为 failed，不影响同批其他步骤
+ * - 将执行结果和工具调用结果添加到 pastSteps，供最终整合使用
  */
 async function executorNode(state: typeof PlanningState.State) {
-  const { plan, pastSteps } = state;
-  const currentStep = plan[0];
-  console.log(`\n🔨 [Executor] 正在执行步骤: "${currentStep}"`);
-  const context = pastSteps.map((s, i) => `步骤 ${i+1} 结果: ${s}`).join("\n");
-  const prompt = `请执行以下任务: "${currentStep}"\n${context ? `这是之前的步骤产生的信息(供参考):\n${context}` : ""}\n请仅返回当前任务的执行结果。`;
-  const response = await model.invoke([new HumanMessage(prompt)]);
-  const result = response.content as string;
-  console.log(`✅ 步骤完成。结果预览: ${result.slice(0, 30)}...`);
-  return { pastSteps: [result], plan: plan.slice(1) }; // 移除已执行步骤，添加结果
+  const { objective } = state;
+  const steps = state.steps.map((s) => ({ ...s }));
+  const running = steps.filter((s) => s.status === "running");
+  running.forEach((s) => console.log(`\n🔨 [Executor] 正在执行步骤 ${s.id}: "${s.description}"`));
+
+  acquireExecutorTools();
+  const outcomes = await Promise.allSettled(running.map((step) => executeStep(step, state.steps, objective)));
+  releaseExecutorTools();
+  const pastSteps: string[] = [];
+  outcomes.forEach((outcome, i) => {
+    const step = running[i];
+    if (outcome.status === "fulfilled") {
+      const { result, toolCalls } = outcome.value;
+      Object.assign(step, { status: "done", result, ...(toolCalls.length > 0 ? { toolCalls } : {}) });
+      pastSteps.push(`[${step.id}] ${step.description}: ${formatStepOutput(step)}`);
+      console.log(`✅ 步骤 ${step.id} 完成${toolCalls.length > 0 ? `（调用工具 ${toolCalls.length} 次）` : ""}。结果预览: ${result.slice(0, 30)}...`);
+    } else {
+      const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+      Object.assign(step, { status: "failed", error });
+      console.log(`❌ 步骤 ${step.id} 失败: ${error}`);
+    }
+  });
+  return { steps, pastSteps };
+}
+
+/**
+ * 重规划节点：根据已完成步骤的结果修订剩余步骤
+ * 设计要点：
+ * - 模型返回完整的剩余步骤列表，可以增加、删除或调整顺序和依赖；未列出的待执行步骤视为删除
+ * - 超过 MAX_REPLANS 次或模型输出无法解析时保持原计划，重规划失败不影响执行
+ */
+async function replannerNode(state: typeof PlanningState.State) {
+  const { objective, steps, replans } = state;
+  if (replans >= MAX_REPLANS) return {};
+  const finished = steps.filter((s) => s.status === "done" || s.status === "failed");
+  const pending = steps.filter((s) => s.status === "pending");
+
+  console.log(`\n🧭 [Replanner] 正在根据执行结果检查剩余计划...`);
+  const prompt = `你是一个任务规划专家，正在根据执行结果修订计划。
+目标: ${objective}
+已结束的步骤：
+${finished.map((s) => `${formatStep(s)}\n  结果: ${s.status === "done" ? formatStepOutput(s) : s.error}`).join("\n")}
+待执行：
+${pending.length > 0 ? pending.map(formatStep).join("\n") : "（无）"}
+如果剩余计划仍然合适，输出 {"changed": false}；否则输出调整后的完整剩余步骤 remaining（可以增加、删除、调整顺序和依赖，保留的步骤沿用原 ID，新步骤使用新 ID），并在 reason 中说明原因。`;
+
+  try {
+    const decision = await invokeStructured(replanModel, prompt, ReplanSchema, { label: "重规划" });
+    if (!decision.changed || !decision.remaining) {
+      console.log("   计划无需调整");
+      return { replans: replans + 1 };
+    }
+    // 已结束的步骤不会重新执行；保留的步骤沿用原 ID，依赖统一重新校验
+    const remaining = toPendingSteps(
+      decision.remaining.filter((s) => !finished.some((f) => f.id === s.id)),
+      finished
+    );
+    const dropped = pending.filter((p) => !remaining.some((r) => r.id === p.id));
+    console.log(`   计划已调整${decision.reason ? `（${decision.reason}）` : ""}：\n${remaining.map(formatStep).join("\n")}`);
+    if (dropped.length > 0) console.log(`   删除步骤: ${dropped.map((s) => s.id).join(", ")}`);
+    return { steps: [...finished, ...remaining], replans: replans + 1 };
+  } catch (error) {
+    console.error("[Replanner] 重规划失败，保持原计划:", error instanceof Error ? error.message : error);
+    return { replans: replans + 1 };
+  }
 }
 
 /**
  * 响应节点：整合所有步骤的结果，生成最终回复
- * 设计要点：基于所有 pastSteps 生成连贯的最终答案
+ * 设计要点：基于所有 pastSteps 生成连贯的最终答案，失败的步骤也告知模型
  */
 async function responseNode(state: typeof PlanningState.State) {
   console.log(`\n🎉 [Finalizer] 正在整合最终回复...`);
-  const { objective, pastSteps } = state;
-  const prompt = `用户目标: "${objective}"\n我们已经分步完成了所有任务，结果如下:\n${pastSteps.map((s, i) => `--- 步骤 ${i+1} ---\n${s}`).join("\n")}\n请基于以上信息，给用户一个连贯的、最终的回复。`;
+  const { objective, pastSteps, steps } = state;
+  const failed = steps.filter((s) => s.status === "failed");
+  const prompt = `用户目标: "${objective}"\n我们已经分步完成了任务，结果如下:\n${pastSteps.map((s, i) => `--- 结果 ${i+1} ---\n${s}`).join("\n")}${failed.length > 0 ? `\n以下步骤未能完成:\n${failed.map((s) => `- ${s.description}: ${s.error}`).join("\n")}` : ""}\n请基于以上信息，给用户一个连贯的、最终的回复。`;
   const response = await model.invoke([new HumanMessage(prompt)]);
   return { response: response.content as string };
 }
 
 /**
- * 循环控制函数：判断是否继续执行计划
- * 设计要点：这是实现循环的关键，根据 plan 长度决定下一步
+ * 调度后的路由：有步骤进入 running 则执行，否则整合结果
  */
-function shouldContinue(state: typeof PlanningState.State) {
-  return state.plan.length > 0 ? "executor" : "responder";
+function routeAfterDispatch(state: typeof PlanningState.State) {
+  return state.steps.some((s) => s.status === "running") ? "executor" : "responder";
 }
 
 /**
  * 构建工作流图
  * 关键设计：使用条件边实现循环执行
- * - executor 执行完后，如果 plan 还有剩余，继续执行 executor
- * - 如果 plan 为空，则进入 responder 生成最终响应
+ * - 每批执行后先重规划，再回到 dispatch 调度下一批
+ * - dispatch 找不到可执行的步骤时（全部结束、依赖失败或达到上限），进入 responder 生成最终响应
  */
 const workflow = new StateGraph(PlanningState)
   .addNode("planner", plannerNode)          // 规划节点
-  .addNode("executor", executorNode)         // 执行节点（可循环）
+  .addNode("dispatch", dispatchNode)         // 调度节点：选出可执行的步骤
+  .addNode("executor", executorNode)         // 执行节点：并行执行本批步骤
+  .addNode("replanner", replannerNode)       // 重规划节点
   .addNode("responder", responseNode)        // 响应节点
   .addEdge("__start__", "planner")          // 启动规划
-  .addEdge("planner", "executor")           // 规划完成后开始执行
-  .addConditionalEdges("executor", shouldContinue, {  // 条件循环
-    executor: "executor",    // 如果还有计划，继续执行
-    responder: "responder"   // 如果计划完成，生成响应
+  .addEdge("planner", "dispatch")           // 规划完成后开始调度
+  .addConditionalEdges("dispatch", routeAfterDispatch, {  // 条件循环
+    executor: "executor",    // 有可执行的步骤
+    responder: "responder"   // 没有可执行的步骤，生成响应
   })
+  .addEdge("executor", "replanner")         // 每批执行后检查计划
+  .addEdge("replanner", "dispatch")         // 调度下一批
   .addEdge("responder", END);               // 完成
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("planning") });
+
+// 导出 app 供服务器使用
+export { app, PlanningState, closeExecutorTools };
+export type { PlanStep, StepStatus, StepToolCall };
 
 async function main() {
-  const objective = "我想了解 Rust 语言的特点，并写一段 Hello World 代码解释其语法";
-  const result = await app.invoke({ objective });
-  console.log("\n====== FINAL OUTPUT ======\n" + result.response);
+  const objective = "我想了解 TypeScript 语言的特点，并写一段 Hello World 代码运行后解释其语法";
+  try {
+    const result = await resumeOrInvoke(app, { objective }, process.env.THREAD_ID);
+    console.log("\n====== 步骤状态 ======\n" + result.steps.map(formatStep).join("\n"));
+    console.log("\n====== FINAL OUTPUT ======\n" + result.response);
+  } finally {
+    await closeExecutorTools();
+  }
+}
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
 }
-main().catch(console.error);
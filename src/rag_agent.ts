@@ -8,94 +8,374 @@
  * 设计要点：
  * 1. 检索优先：先检索，后生成，确保信息准确性
  * 2. 上下文注入：将检索结果作为 prompt 的一部分，增强回答质量
- * 3. 知识库分离：知识库与 LLM 分离，便于更新和维护
- * 4. 工作流模式：Start -> Retrieve -> Generate -> End
+ * 3. 知识库分离：知识库是 assets/knowledge 下的 Markdown / 文本 / JSON 文件，修改后索引自动重建
+ * 4. 混合检索：向量检索与 BM25 关键词检索两路召回，RRF 融合后可选重排序，取 top-k 片段
+ *    （见 rag_ingest / rag_embeddings / rag_index / rag_bm25 / rag_retriever）
+ * 5. 分数记录：每次检索的查询与各片段的向量、BM25、融合、重排序得分记录在 retrievals 中
+ * 6. 引用与核查：片段按编号注入上下文，回答逐句带 [n] 引用；核查节点检查每句是否被所引片段支持，
+ *    删除（或标记）无依据的句子，结构化结果 {answer, citations, unsupportedClaims} 写入 result（见 rag_grounding）
+ * 7. 纠错检索：评分节点判断片段是否相关、是否足以回答；不足时改写查询或拆成子问题重新检索，
+ *    超过检索预算仍无相关片段则明确拒答，而不是硬着头皮回答
+ * 8. 多轮对话：messages 保存对话历史，按线程持久化；改写节点结合历史把追问（"它和 MCP 有什么关系？"）
+ *    改写为可独立检索的问题。单次调用只传 question 也可以，同样会记入对话历史
+ * 9. 工作流模式：Start -> Condense -> Retrieve -> Grade -> (Rewrite -> Retrieve)* -> Generate -> Verify -> End
+ *                                                                             \-> Decline -> End
  * 
  * 适用场景：
  * - 企业知识库问答（基于内部文档回答）
  * - 专业领域助手（需要准确的事实信息）
  * - 实时信息查询（结合外部数据源）
  * 
+ * 环境变量：
+ * - RAG_TOP_K：检索片段数（默认 3）
+ * - RAG_MIN_SCORE：向量召回的最低相似度（默认 0.1）
+ * - RAG_MIN_BM25：BM25 召回的最低得分（默认 0.5）
+ * - RAG_RERANK：重排序方式 none | llm | cross-encoder（默认 none，详见 rag_retriever.ts）
+ * - RAG_UNSUPPORTED：无依据句子的处理方式 remove | flag（默认 remove）
+ * - RAG_MAX_RETRIEVALS：检索轮数上限，含首轮（默认 3）
+ *
  * 扩展方向：
- * - 使用向量数据库（如 Pinecone、Weaviate）进行语义检索
- * - 实现多轮对话的上下文管理
- * - 添加引用来源功能
+ * - 使用向量数据库（如 Pinecone、Weaviate）替换本地索引
+ * - 对话过长时压缩历史
  */
 
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
-import { HumanMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { AIMessage, BaseMessage, HumanMessage } from "@langchain/core/messages";
+import { createChatModel } from "./model_provider";
+import { getCheckpointer, threadConfig } from "./checkpointer";
+import { getRetriever, type RetrievalResult } from "./rag_retriever";
+import { verifyAnswer, type GroundedAnswer } from "./rag_grounding";
+import type { DocumentChunk } from "./rag_ingest";
 
-// 定义状态：问题、检索到的上下文、最终答案
+// 一次检索的记录：对话轮次、查询与每个片段的各项得分
+type RetrievalTrace = {
+  turn: number;
+  query: string;
+  results: (Omit<RetrievalResult, "chunk"> & { id: string })[];
+};
+
+// 相关性评分：对话轮次、第几轮检索、片段 ID、是否相关
+type ChunkGrade = {
+  turn: number;
+  attempt: number;
+  id: string;
+  relevant: boolean;
+};
+
+// 定义状态：对话历史、问题、检索查询与轮数、候选与相关片段、上下文、检索与评分记录、答案与核查结果
+// 除 messages、retrievals、grades 外，其余字段在每轮对话开始时由改写节点重置
 const RagState = Annotation.Root({
-  question: Annotation<string>,                                                      // 用户问题
-  context: Annotation<string>({ reducer: (x, y) => y ?? x, default: () => "" }),     // 检索到的上下文
-  answer: Annotation<string>,                                                       // 生成的答案
+  messages: Annotation<BaseMessage[]>({ reducer: (x, y) => x.concat(y), default: () => [] }), // 对话历史（按线程累积）
+  turn: Annotation<number>({ reducer: (x, y) => y, default: () => 0 }),               // 当前对话轮次
+  question: Annotation<string>,                                                      // 本轮可独立检索的问题
+  queries: Annotation<string[]>({ reducer: (x, y) => y ?? x, default: () => [] }),   // 本轮检索使用的查询（改写或拆分后的子问题）
+  attempts: Annotation<number>({ reducer: (x, y) => y, default: () => 0 }),           // 已执行的检索轮数
+  candidates: Annotation<DocumentChunk[]>({ reducer: (x, y) => y ?? x, default: () => [] }), // 本轮检索到的候选片段
+  chunks: Annotation<DocumentChunk[]>({ reducer: (x, y) => y ?? x, default: () => [] }), // 评分为相关的片段（跨轮累积，下标 + 1 即引用编号）
+  sufficient: Annotation<boolean>({ reducer: (x, y) => y, default: () => false }),    // 相关片段是否足以回答问题
+  context: Annotation<string>({ reducer: (x, y) => y ?? x, default: () => "" }),     // 注入提示词的上下文
+  retrievals: Annotation<RetrievalTrace[]>({ reducer: (x, y) => x.concat(y), default: () => [] }), // 每次检索的得分（累积）
+  grades: Annotation<ChunkGrade[]>({ reducer: (x, y) => x.concat(y), default: () => [] }), // 每轮的相关性评分（累积）
+  answer: Annotation<string>,                                                       // 生成的答案（核查后为删除无依据句子后的版本）
+  result: Annotation<GroundedAnswer>,                                               // 结构化结果：回答、引用、无依据的论断
 });
 
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-const model = new ChatOpenAI({ ...CONFIG, temperature: 0 }); // temperature=0 确保基于事实的准确回答
+const DECLINE_ANSWER = "知识库中没有找到足够的相关信息，无法回答该问题。";
+const UNGROUNDED_ANSWER = "知识库中的资料不足以支持回答该问题。";
 
-// 模拟知识库（实际应用中应使用向量数据库或文档检索系统）
-const MOCK_KNOWLEDGE_BASE = {
-  "langgraph": "LangGraph 是一个用于构建有状态、多智能体应用程序的库，由 LangChain 开发。",
-  "agent": "Agent 是一个使用 LLM 决定行动序列的系统。",
-  "mcp": "Model Context Protocol (MCP) 是一个用于连接 AI 助手和系统的标准协议。"
-};
+const model = createChatModel("rag", { temperature: 0 }); // temperature=0 确保基于事实的准确回答
+const graderModel = createChatModel("rag.grade", { temperature: 0 });
+const rewriterModel = createChatModel("rag.rewrite", { temperature: 0 });
+const condenseModel = createChatModel("rag.condense", { temperature: 0 });
+
+const TOP_K = Number(process.env.RAG_TOP_K ?? 3);
+const MIN_SCORE = Number(process.env.RAG_MIN_SCORE ?? 0.1);
+const MAX_RETRIEVALS = Number(process.env.RAG_MAX_RETRIEVALS ?? 3);
+const MAX_SUB_QUESTIONS = 3;
+const HISTORY_WINDOW = 6; // 改写追问时参考的最近消息数
 
 /**
- * 检索节点：从知识库中检索与问题相关的上下文
+ * 从模型输出中提取第一个 JSON 对象
+ */
+function parseJsonObject<T>(text: string): T {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) throw new Error(`输出不是 JSON 对象：${text.slice(0, 80)}`);
+  return JSON.parse(match[0]) as T;
+}
+
+/**
+ * 改写追问节点：开始新一轮对话，把依赖上下文的追问改写为可独立检索的问题
  * 设计要点：
- * - 使用关键词匹配（实际应用应使用语义相似度搜索）
- * - 如果未找到相关信息，返回默认提示
+ * - 最后一条消息是用户消息时为对话模式；否则使用传入的 question，并把它记入对话历史
+ * - 没有历史时无需改写；有历史时只参考最近 HISTORY_WINDOW 条消息
+ * - 重置上一轮的检索状态，避免把上一个问题的片段带进来
+ */
+async function condenseNode(state: typeof RagState.State) {
+  const reset = { turn: state.turn + 1, queries: [], attempts: 0, candidates: [], chunks: [], sufficient: false, context: "" };
+  const last = state.messages[state.messages.length - 1];
+  if (last?.getType() !== "human") {
+    if (!state.question) throw new Error("缺少问题：请传入 question 或以用户消息结尾的 messages");
+    return { ...reset, messages: [new HumanMessage(state.question)] };
+  }
+
+  const followUp = String(last.content);
+  const history = state.messages.slice(0, -1).slice(-HISTORY_WINDOW);
+  if (history.length === 0) return { ...reset, question: followUp };
+
+  console.log(`\n💬 [Condense] 结合 ${history.length} 条历史消息改写追问: "${followUp}"`);
+  const transcript = history.map((m) => `${m.getType() === "human" ? "用户" : "助手"}: ${m.content}`).join("\n");
+  const prompt = `根据对话历史，把用户的最新问题改写为一个不依赖上下文、可以单独用于知识库检索的问题。
+代词（它、这个、前者等）要替换为所指的具体名称；如果问题本身已经完整，原样输出。
+
+对话历史：
+${transcript}
+
+最新问题：${followUp}
+
+只输出改写后的问题。`;
+  const response = await condenseModel.invoke([new HumanMessage(prompt)]);
+  const question = String(response.content).trim() || followUp;
+  console.log(`   ➡️ ${question}`);
+  return { ...reset, question };
+}
+
+/**
+ * 检索节点：对本轮每个查询做混合检索，按片段去重后作为候选
+ * 设计要点：
+ * - 首轮查询即用户问题；之后的轮次使用改写节点给出的查询或子问题
+ * - 每个查询的得分单独记录在 retrievals 中
  */
 async function retrieveNode(state: typeof RagState.State) {
-  const { question } = state;
-  console.log(`\n🔍 [Retriever] 正在检索知识库: "${question}"`);
-  let context = "未找到相关信息。";
-  const lowerQ = question.toLowerCase();
-  if (lowerQ.includes("langgraph")) context = MOCK_KNOWLEDGE_BASE["langgraph"];
-  else if (lowerQ.includes("agent")) context = MOCK_KNOWLEDGE_BASE["agent"];
-  else if (lowerQ.includes("mcp")) context = MOCK_KNOWLEDGE_BASE["mcp"];
-  console.log(`📄 检索结果: ${context}`);
-  return { context };
+  const queries = state.queries.length > 0 ? state.queries : [state.question];
+  const retriever = await getRetriever();
+  const candidates = new Map<string, DocumentChunk>();
+  const traces: RetrievalTrace[] = [];
+
+  for (const query of queries) {
+    console.log(`\n🔍 [Retriever] 第 ${state.attempts + 1} 轮检索: "${query}"`);
+    const results = await retriever.search(query, { k: TOP_K, minVectorScore: MIN_SCORE });
+    traces.push({
+      turn: state.turn,
+      query,
+      results: results.map(({ chunk, ...scores }) => ({ id: chunk.id, ...scores })),
+    });
+    if (results.length === 0) console.log("📄 检索结果: 未找到相关信息");
+
+    results.forEach(({ chunk, vector, bm25, rerank }) => {
+      const scores = [
+        `向量 ${vector ? `${vector.score.toFixed(3)}#${vector.rank}` : "-"}`,
+        `BM25 ${bm25 ? `${bm25.score.toFixed(2)}#${bm25.rank}` : "-"}`,
+        ...(rerank !== undefined ? [`重排 ${rerank.toFixed(2)}`] : []),
+      ];
+      console.log(`📄 [${scores.join(" | ")}] ${chunk.id}: ${chunk.text.slice(0, 40)}...`);
+      candidates.set(chunk.id, chunk);
+    });
+  }
+
+  return { queries, attempts: state.attempts + 1, candidates: [...candidates.values()], retrievals: traces };
+}
+
+/**
+ * 评分节点：判断本轮候选片段是否与原问题相关，以及已有的相关片段是否足以回答
+ * 设计要点：
+ * - 相关片段跨轮累积，改写后的检索只需补齐缺失的信息
+ * - 模型输出无法解析时保留全部新候选、视为足够，退化为不带评分的普通 RAG
+ */
+async function gradeNode(state: typeof RagState.State) {
+  const { question, candidates, attempts, turn } = state;
+  const known = new Set(state.chunks.map((chunk) => chunk.id));
+  const fresh = candidates.filter((chunk) => !known.has(chunk.id));
+  console.log(`\n⚖️ [Grader] 正在评估 ${fresh.length} 个新片段的相关性...`);
+
+  let relevant = fresh;
+  let sufficient = fresh.length + state.chunks.length > 0;
+  if (fresh.length > 0) {
+    const existing = state.chunks.map((chunk) => `- ${chunk.text}`).join("\n") || "（无）";
+    const list = fresh.map((chunk, i) => `[${i + 1}] ${chunk.title ? `${chunk.title}：` : ""}${chunk.text}`).join("\n\n");
+    const prompt = `你是检索结果的相关性评审。请判断候选片段是否包含回答问题所需的信息。
+问题：${question}
+
+已确认相关的片段：
+${existing}
+
+候选片段：
+${list}
+
+只输出 JSON 对象：{"relevant": [相关片段编号], "sufficient": 已确认片段与相关候选合起来是否足以完整回答问题（true/false）}`;
+    try {
+      const response = await graderModel.invoke([new HumanMessage(prompt)]);
+      const verdict = parseJsonObject<{ relevant?: unknown; sufficient?: unknown }>(String(response.content));
+      const picked = new Set(Array.isArray(verdict.relevant) ? verdict.relevant.map(Number) : []);
+      relevant = fresh.filter((_, i) => picked.has(i + 1));
+      sufficient = verdict.sufficient === true && relevant.length + state.chunks.length > 0;
+    } catch (error) {
+      console.error("[RAG] 相关性评分失败，保留全部候选片段:", error instanceof Error ? error.message : error);
+    }
+  } else {
+    // 没有新片段时只能依据已有片段判断；继续改写仍有机会找到新内容
+    sufficient = false;
+  }
+
+  const chunks = [...state.chunks, ...relevant];
+  console.log(`📊 相关 ${relevant.length}/${fresh.length}，累计 ${chunks.length} 个片段，${sufficient ? "信息充足" : "信息不足"}`);
+  const context = chunks
+    .map((chunk, i) => `[${i + 1}] 来源: ${chunk.id}${chunk.title ? `（${chunk.title}）` : ""}\n${chunk.text}`)
+    .join("\n\n");
+  const grades = fresh.map((chunk) => ({ turn, attempt: attempts, id: chunk.id, relevant: relevant.includes(chunk) }));
+  return { chunks, context, sufficient, grades };
 }
 
 /**
- * 生成节点：基于检索到的上下文生成回答
+ * 改写节点：信息不足时改写查询，或把复合问题拆成多个子问题
  * 设计要点：
- * - 将检索到的 context 作为 prompt 的一部分
- * - LLM 基于提供的上下文回答，而非仅依赖训练数据
- * - 如果 context 为空，LLM 会明确告知无法基于知识库回答
+ * - 提供已尝试过的查询，避免原样重复
+ * - 输出 1 个查询即改写，多个即拆分（最多 MAX_SUB_QUESTIONS 个）
+ */
+async function rewriteNode(state: typeof RagState.State) {
+  const { question, retrievals, chunks, turn } = state;
+  console.log(`\n✏️ [Rewriter] 检索信息不足，正在改写查询...`);
+  const tried = [...new Set(retrievals.filter((r) => r.turn === turn).map((r) => r.query))];
+  const prompt = `你负责为知识库检索改写查询。原问题的检索结果不足以回答，请换一种说法，或把复合问题拆成更小的子问题。
+原问题：${question}
+已尝试的查询：
+${tried.map((q) => `- ${q}`).join("\n")}
+已找到的相关信息：${chunks.length > 0 ? chunks.map((c) => c.title ?? c.id).join("、") : "无"}
+
+要求：使用知识库文档中可能出现的关键词；不要重复已尝试的查询；最多 ${MAX_SUB_QUESTIONS} 个子问题。
+只输出 JSON 对象：{"queries": ["查询1", "查询2"]}`;
+
+  let queries: string[] = [];
+  try {
+    const response = await rewriterModel.invoke([new HumanMessage(prompt)]);
+    const parsed = parseJsonObject<{ queries?: unknown }>(String(response.content));
+    queries = Array.isArray(parsed.queries) ? parsed.queries.map(String) : [];
+  } catch (error) {
+    console.error("[RAG] 查询改写失败:", error instanceof Error ? error.message : error);
+  }
+  queries = [...new Set(queries.map((q) => q.trim()).filter((q) => q && !tried.includes(q)))].slice(0, MAX_SUB_QUESTIONS);
+  if (queries.length === 0) console.log("   没有新的查询可尝试");
+  queries.forEach((q) => console.log(`   ➡️ ${q}`));
+  return { queries };
+}
+
+/**
+ * 拒答节点：检索预算用完仍没有相关片段时，明确告知无法回答
+ */
+async function declineNode(state: typeof RagState.State) {
+  const tried = [...new Set(state.retrievals.filter((r) => r.turn === state.turn).map((r) => r.query))];
+  console.log(`\n🙅 [Decline] 尝试了 ${tried.length} 个查询仍未找到相关信息`);
+  return {
+    answer: DECLINE_ANSWER,
+    result: { answer: DECLINE_ANSWER, citations: [], unsupportedClaims: [] },
+    messages: [new AIMessage(DECLINE_ANSWER)],
+  };
+}
+
+/**
+ * 评分后的路由：信息充足则生成；否则在预算内改写重试；预算用完时有相关片段就尽量回答，一个都没有则拒答
+ */
+function routeAfterGrade(state: typeof RagState.State) {
+  if (state.sufficient) return "generate";
+  if (state.attempts < MAX_RETRIEVALS) return "rewrite";
+  return state.chunks.length > 0 ? "generate" : "decline";
+}
+
+/**
+ * 改写后的路由：改写没有产生新查询时不再检索
+ */
+function routeAfterRewrite(state: typeof RagState.State) {
+  if (state.queries.length > 0) return "retrieve";
+  return state.chunks.length > 0 ? "generate" : "decline";
+}
+
+/**
+ * 生成节点：基于检索到的上下文生成带引用的回答
+ * 设计要点：
+ * - 将检索到的 context 作为 prompt 的一部分，片段带编号
+ * - 要求每句话末尾用 [n] 标注依据的片段，便于核查节点逐句检查
  */
 async function generateNode(state: typeof RagState.State) {
   const { question, context } = state;
+
   console.log(`\n🧠 [Generator] 正在生成回答...`);
-  const prompt = `请基于以下上下文回答用户问题。\n上下文:\n${context}\n用户问题: ${question}`;
+  const prompt = `请基于以下上下文回答用户问题。
+要求：
+1. 只使用上下文中的信息，上下文没有提到的内容不要编造
+2. 每句话末尾用方括号标注依据的片段编号，例如 "……[1]。"，多个来源写作 [1, 2]
+
+上下文:
+${context}
+用户问题: ${question}`;
   const response = await model.invoke([new HumanMessage(prompt)]);
   return { answer: response.content as string };
 }
 
+/**
+ * 核查节点：逐句检查引用是否支持回答内容
+ * 设计要点：
+ * - 没有引用或引用片段不支持的句子计入 unsupportedClaims，按配置删除或标记
+ * - 所有句子都被删除时，改为告知资料不足，而不是返回空回答
+ */
+async function verifyNode(state: typeof RagState.State) {
+  const { answer, chunks } = state;
+  console.log(`\n🔎 [Verifier] 正在核查引用...`);
+  const result = await verifyAnswer(answer, chunks);
+  for (const claim of result.unsupportedClaims) {
+    console.log(`⚠️ 无依据: ${claim.sentence}（${claim.reason}）`);
+  }
+  console.log(`✅ 核查完成: 引用 ${result.citations.length} 个片段，无依据 ${result.unsupportedClaims.length} 句`);
+
+  const verified = result.answer || UNGROUNDED_ANSWER;
+  return { answer: verified, result: { ...result, answer: verified }, messages: [new AIMessage(verified)] };
+}
+
 const workflow = new StateGraph(RagState)
+  .addNode("condense", condenseNode)
   .addNode("retrieve", retrieveNode)
+  .addNode("grade", gradeNode)
+  .addNode("rewrite", rewriteNode)
   .addNode("generate", generateNode)
-  .addEdge("__start__", "retrieve")
-  .addEdge("retrieve", "generate")
-  .addEdge("generate", END);
+  .addNode("verify", verifyNode)
+  .addNode("decline", declineNode)
+  .addEdge("__start__", "condense")
+  .addEdge("condense", "retrieve")
+  .addEdge("retrieve", "grade")
+  .addConditionalEdges("grade", routeAfterGrade, { generate: "generate", rewrite: "rewrite", decline: "decline" })
+  .addConditionalEdges("rewrite", routeAfterRewrite, { retrieve: "retrieve", generate: "generate", decline: "decline" })
+  .addEdge("generate", "verify")
+  .addEdge("verify", END)
+  .addEdge("decline", END);
+
+const app = workflow.compile({ checkpointer: getCheckpointer("rag") });
+
+// 导出 app 供服务器使用
+export { app, RagState };
+export type { RetrievalTrace, ChunkGrade };
 
-const app = workflow.compile();
+function printAnswer(res: typeof RagState.State) {
+  console.log(`💬 回答: ${res.answer}`);
+  for (const citation of res.result.citations) {
+    console.log(`   [${citation.marker}] ${citation.chunkId}${citation.title ? `（${citation.title}）` : ""}`);
+  }
+}
 
 async function main() {
-  const questions = ["LangGraph 是什么？", "今天天气怎么样？"];
-  for (const q of questions) {
+  // 多轮对话：同一线程内的追问结合历史改写后再检索
+  const chatConfig = threadConfig();
+  for (const q of ["LangGraph 是什么？", "它和 MCP 有什么关系？"]) {
+    console.log(`\n--- 对话: ${q} ---`);
+    printAnswer(await app.invoke({ messages: [new HumanMessage(q)] }, chatConfig));
+  }
+
+  // 单轮问答：每个问题一个新线程
+  for (const q of ["MCP 支持哪些传输方式？", "错误码 RAG-E2003 是什么意思？", "今天天气怎么样？"]) {
     console.log(`\n--- Query: ${q} ---`);
-    const res = await app.invoke({ question: q });
-    console.log(`💬 回答: ${res.answer}`);
+    printAnswer(await app.invoke({ question: q }, threadConfig()));
   }
 }
-main().catch(console.error);
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,95 @@
+/**
+ * RAG 关键词索引 (BM25)
+ *
+ * 功能概述：
+ * 在向量索引之外再建立一个 BM25 词法索引，弥补语义检索对精确字面（产品编号、错误码、API 名）不敏感的问题。
+ *
+ * 设计要点：
+ * 1. 分词：复用 rag_embeddings 的 tokenize，只保留英文单词和中文双字；
+ *    另外把 "AX-2049"、"v1.2" 这类带连接符的编号整体作为一个词，保证精确匹配
+ * 2. 去噪：去掉中文单字，以及两个字都是虚词的双字（如 "什么"），避免闲聊问题命中任意文档
+ * 3. 内存索引：片段数量不大，每次加载向量索引时直接重建，不单独落盘
+ */
+
+import { STOP_CHARS, tokenize } from "./rag_embeddings";
+import type { DocumentChunk } from "./rag_ingest";
+
+type Bm25Options = {
+  k1: number; // 词频饱和参数
+  b: number;  // 文档长度归一化参数
+};
+
+type Bm25Result = {
+  chunk: DocumentChunk;
+  score: number; // BM25 得分（无上界，只用于排序）
+};
+
+const DEFAULT_BM25_OPTIONS: Bm25Options = { k1: 1.2, b: 0.75 };
+
+/**
+ * 词法分词：单词、中文双字，以及带 - _ . / 连接的编号整体
+ */
+function lexicalTokens(text: string): string[] {
+  const tokens = tokenize(text)
+    .filter(({ weight }) => weight >= 1)
+    .map(({ token }) => token)
+    // 两个字都是虚词的双字不参与词法匹配
+    .filter((token) => !([...token].length === 2 && [...token].every((char) => STOP_CHARS.has(char))));
+  const codes = text.toLowerCase().match(/[a-z0-9]+(?:[-_./][a-z0-9]+)+/g) ?? [];
+  return tokens.concat(codes);
+}
+
+class Bm25Index {
+  private docs: { chunk: DocumentChunk; tf: Map<string, number>; length: number }[];
+  private df = new Map<string, number>();
+  private avgLength: number;
+  private options: Bm25Options;
+
+  constructor(chunks: DocumentChunk[], options: Bm25Options = DEFAULT_BM25_OPTIONS) {
+    this.options = options;
+    this.docs = chunks.map((chunk) => {
+      const tokens = lexicalTokens(chunk.title ? `${chunk.title}\n${chunk.text}` : chunk.text);
+      const tf = new Map<string, number>();
+      for (const token of tokens) tf.set(token, (tf.get(token) ?? 0) + 1);
+      for (const token of tf.keys()) this.df.set(token, (this.df.get(token) ?? 0) + 1);
+      return { chunk, tf, length: tokens.length };
+    });
+    this.avgLength = this.docs.reduce((sum, doc) => sum + doc.length, 0) / Math.max(this.docs.length, 1);
+  }
+
+  /**
+   * 逆文档频率（BM25+ 形式，保证非负）
+   */
+  private idf(token: string): number {
+    const n = this.df.get(token) ?? 0;
+    return Math.log(1 + (this.docs.length - n + 0.5) / (n + 0.5));
+  }
+
+  /**
+   * 关键词检索
+   * @param k 返回片段数
+   * @param minScore 低于该得分的片段丢弃
+   */
+  search(query: string, k: number, minScore = 0): Bm25Result[] {
+    const terms = [...new Set(lexicalTokens(query))].filter((token) => this.df.has(token));
+    if (terms.length === 0) return [];
+    const { k1, b } = this.options;
+
+    return this.docs
+      .map(({ chunk, tf, length }) => {
+        let score = 0;
+        for (const term of terms) {
+          const freq = tf.get(term) ?? 0;
+          if (freq === 0) continue;
+          score += (this.idf(term) * freq * (k1 + 1)) / (freq + k1 * (1 - b + (b * length) / this.avgLength));
+        }
+        return { chunk, score };
+      })
+      .filter((result) => result.score > 0 && result.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
+
+export { Bm25Index, lexicalTokens, DEFAULT_BM25_OPTIONS };
+export type { Bm25Result, Bm25Options };
@@ -0,0 +1,142 @@
+/**
+ * RAG 向量化 (Embeddings)
+ *
+ * 功能概述：
+ * 为检索提供可插拔的向量化实现，统一使用 LangChain 的 Embeddings 接口（embedDocuments / embedQuery）。
+ *
+ * 设计要点：
+ * 1. 本地哈希向量（默认）：无需网络和模型，结果确定，适合离线演示与测试
+ *    - 分词：英文 / 数字按单词，中文按单字 + 相邻双字（bigram），去掉常见虚词
+ *    - 特征哈希：FNV-1a 哈希到固定维度，带符号减少冲突影响；词频取 1 + log(tf)
+ *    - L2 归一化：向量点积即余弦相似度
+ * 2. OpenAI 兼容接口：配置 provider = "openai" 后使用远程 embedding 模型
+ * 3. 名称标识：每种实现带一个 name（如 "hashing:512"），索引据此判断是否需要重建
+ *
+ * 配置（环境变量优先于 model.config.json 中的 embeddings 字段）：
+ * - EMBEDDINGS_PROVIDER：local | openai（默认 local）
+ * - EMBEDDINGS_MODEL：openai 模式下的模型名（默认 text-embedding-3-small）
+ */
+
+import "dotenv/config";
+import { Embeddings } from "@langchain/core/embeddings";
+import { OpenAIEmbeddings } from "@langchain/openai";
+import { loadModelConfig } from "./model_provider";
+
+type EmbeddingProvider = {
+  name: string;           // 实现与参数的标识，用于索引一致性校验
+  embeddings: Embeddings;
+};
+
+// 不参与向量化的高频虚词（单字）
+const STOP_CHARS = new Set("的了是在和与及或有也就都而我你他她它们这那个吗呢吧啊么什怎为之以于其".split(""));
+
+/**
+ * 分词：英文 / 数字按单词；中文连续片段拆成单字与相邻双字
+ * 单字权重较低，双字更能体现词语信息
+ */
+function tokenize(text: string): { token: string; weight: number }[] {
+  const tokens: { token: string; weight: number }[] = [];
+  const lower = text.toLowerCase();
+  for (const word of lower.match(/[a-z0-9_]+/g) ?? []) {
+    tokens.push({ token: word, weight: 1 });
+  }
+  for (const run of lower.match(/[一-鿿]+/g) ?? []) {
+    const chars = [...run];
+    chars.forEach((char, i) => {
+      if (!STOP_CHARS.has(char)) tokens.push({ token: char, weight: 0.5 });
+      if (i + 1 < chars.length) tokens.push({ token: char + chars[i + 1], weight: 1 });
+    });
+  }
+  return tokens;
+}
+
+/**
+ * FNV-1a 32 位哈希
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 本地哈希向量：确定性、无依赖的 embedding 实现
+ */
+class HashingEmbeddings extends Embeddings {
+  dimensions: number;
+
+  constructor(fields: { dimensions?: number } = {}) {
+    super({});
+    this.dimensions = fields.dimensions ?? 512;
+  }
+
+  private embed(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const { token, weight } of tokenize(text)) {
+      counts.set(token, (counts.get(token) ?? 0) + weight);
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [token, count] of counts) {
+      const hash = fnv1a(token);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((doc) => this.embed(doc));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+}
+
+/**
+ * 余弦相似度；任一向量为零向量时返回 0
+ */
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * 按配置创建 embedding 实现
+ */
+function createEmbeddings(): EmbeddingProvider {
+  const config = loadModelConfig().embeddings ?? {};
+  const provider = process.env.EMBEDDINGS_PROVIDER ?? config.provider ?? "local";
+
+  if (provider === "local") {
+    const embeddings = new HashingEmbeddings({ dimensions: config.dimensions });
+    return { name: `hashing:${embeddings.dimensions}`, embeddings };
+  }
+  if (provider !== "openai") {
+    throw new Error(`未知的 embedding 提供者：${provider}（可选 local | openai）`);
+  }
+
+  const model = process.env.EMBEDDINGS_MODEL ?? config.model ?? "text-embedding-3-small";
+  const embeddings = new OpenAIEmbeddings({
+    apiKey: process.env.OPENAI_API_KEY,
+    model,
+    configuration: { baseURL: config.baseURL ?? process.env.MODEL_BASE_URL ?? loadModelConfig().baseURL },
+  });
+  return { name: `openai:${model}`, embeddings };
+}
+
+export { createEmbeddings, HashingEmbeddings, tokenize, cosine, STOP_CHARS };
+export type { EmbeddingProvider };
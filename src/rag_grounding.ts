@@ -0,0 +1,169 @@
+/**
+ * RAG 引用与事实核查 (Citations & Grounding Verification)
+ *
+ * 功能概述：
+ * 解析回答中的行内引用标记（如 "[1]"、"[1, 2]"），逐句核查引用的片段是否支持该句内容，
+ * 删除或标记没有依据的句子，输出结构化的 {answer, citations[], unsupportedClaims[]}。
+ *
+ * 设计要点：
+ * 1. 逐句核查：按句号、问号、感叹号和换行切句，句末的引用标记归属于该句
+ * 2. 无引用即无依据：生成时要求每句都带引用，没有引用的句子直接判为不支持
+ * 3. 批量判断：所有带引用的句子一次性交给模型判断，减少调用次数
+ * 4. 降级策略：模型输出无法解析或漏判某句时，改用词法覆盖率（句子关键词出现在片段中的比例）判断
+ * 5. 处理方式：remove 删除不支持的句子，flag 保留并追加 "（未经证实）" 标记
+ *
+ * 环境变量：
+ * - RAG_UNSUPPORTED：remove | flag（默认 remove）
+ */
+
+import { HumanMessage } from "@langchain/core/messages";
+import { createChatModel } from "./model_provider";
+import { lexicalTokens } from "./rag_bm25";
+import type { DocumentChunk } from "./rag_ingest";
+
+type Citation = {
+  marker: number;     // 回答中的引用编号
+  chunkId: string;    // 片段 ID（"<source>#<序号>"）
+  source: string;
+  title?: string;
+  excerpt: string;    // 片段开头，便于展示
+};
+
+type UnsupportedClaim = {
+  sentence: string;
+  markers: number[];  // 句子引用的编号（可能为空）
+  reason: string;
+};
+
+type GroundedAnswer = {
+  answer: string;
+  citations: Citation[];
+  unsupportedClaims: UnsupportedClaim[];
+};
+
+type UnsupportedPolicy = "remove" | "flag";
+
+// 词法覆盖率达到该比例视为有依据（仅在模型判断不可用时使用）
+const LEXICAL_SUPPORT_THRESHOLD = 0.5;
+
+const UNSUPPORTED_POLICY: UnsupportedPolicy = process.env.RAG_UNSUPPORTED === "flag" ? "flag" : "remove";
+
+const verifyModel = createChatModel("rag.verify", { temperature: 0 });
+
+const MARKER_PATTERN = /\[(\d+(?:\s*[,，]\s*\d+)*)\]/g;
+
+/**
+ * 切句：句末标点之后紧跟的引用标记也归入该句
+ */
+function splitSentences(answer: string): string[] {
+  const pattern = /[^。！？!?\n]+(?:[。！？!?]+)?(?:\s*\[\d+(?:\s*[,，]\s*\d+)*\])*/g;
+  return (answer.match(pattern) ?? []).map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * 提取句子中的引用编号
+ */
+function citedMarkers(sentence: string): number[] {
+  const markers = [...sentence.matchAll(MARKER_PATTERN)].flatMap((m) => m[1].split(/[,，]/).map((n) => Number(n.trim())));
+  return [...new Set(markers)];
+}
+
+const stripMarkers = (sentence: string) => sentence.replace(MARKER_PATTERN, "").trim();
+
+/**
+ * 词法覆盖率：句子中的关键词有多大比例出现在引用片段里
+ */
+function lexicalSupport(claim: string, chunks: DocumentChunk[]): number {
+  const claimTokens = [...new Set(lexicalTokens(claim))];
+  if (claimTokens.length === 0) return 0;
+  const chunkTokens = new Set(chunks.flatMap((chunk) => lexicalTokens(`${chunk.title ?? ""}\n${chunk.text}`)));
+  return claimTokens.filter((token) => chunkTokens.has(token)).length / claimTokens.length;
+}
+
+/**
+ * 让模型批量判断每个论断是否被其引用的片段支持
+ * @returns 论断序号（从 1 开始）-> 判断结果；解析失败时返回空 Map
+ */
+async function judgeClaims(claims: { text: string; chunks: DocumentChunk[] }[]) {
+  const list = claims
+    .map(({ text, chunks }, i) => `论断 ${i + 1}：${text}\n引用片段：\n${chunks.map((c) => `- ${c.text}`).join("\n")}`)
+    .join("\n\n");
+  const prompt = `你是严格的事实核查员。请逐条判断论断是否能由其引用片段直接推出，片段没有提到的内容一律判为不支持。
+
+${list}
+
+只输出 JSON 数组，例如 [{"claim": 1, "supported": true}, {"claim": 2, "supported": false, "reason": "片段未提及"}]。`;
+
+  const verdicts = new Map<number, { supported: boolean; reason?: string }>();
+  try {
+    const response = await verifyModel.invoke([new HumanMessage(prompt)]);
+    const match = String(response.content).match(/\[[\s\S]*\]/);
+    if (!match) throw new Error(`核查输出不是 JSON 数组：${String(response.content).slice(0, 80)}`);
+    for (const item of JSON.parse(match[0]) as { claim: number; supported: boolean; reason?: string }[]) {
+      if (typeof item?.supported === "boolean") verdicts.set(Number(item.claim), item);
+    }
+  } catch (error) {
+    console.error("[RAG] 模型核查失败，改用词法覆盖率:", error instanceof Error ? error.message : error);
+  }
+  return verdicts;
+}
+
+/**
+ * 核查回答：逐句检查引用，返回处理后的回答、实际使用的引用和不支持的论断
+ * @param chunks 检索到的片段，下标 + 1 即引用编号
+ */
+async function verifyAnswer(answer: string, chunks: DocumentChunk[], policy = UNSUPPORTED_POLICY): Promise<GroundedAnswer> {
+  const sentences = splitSentences(answer).map((sentence) => {
+    const markers = citedMarkers(sentence);
+    return { sentence, markers, cited: markers.map((m) => chunks[m - 1]).filter((c): c is DocumentChunk => !!c) };
+  });
+
+  // 有引用且编号有效的句子交给模型判断
+  const checkable = sentences.filter((s) => s.cited.length > 0);
+  const verdicts =
+    checkable.length > 0
+      ? await judgeClaims(checkable.map((s) => ({ text: stripMarkers(s.sentence), chunks: s.cited })))
+      : new Map<number, { supported: boolean; reason?: string }>();
+
+  const kept: string[] = [];
+  const unsupportedClaims: UnsupportedClaim[] = [];
+  const usedMarkers = new Set<number>();
+
+  for (const item of sentences) {
+    let reason: string | undefined;
+    if (item.markers.length === 0) {
+      reason = "缺少引用";
+    } else if (item.cited.length < item.markers.length) {
+      reason = `引用编号不存在（共 ${chunks.length} 个片段）`;
+    } else {
+      const verdict = verdicts.get(checkable.indexOf(item) + 1);
+      if (verdict) {
+        if (!verdict.supported) reason = verdict.reason ?? "引用片段不支持该论断";
+      } else if (lexicalSupport(stripMarkers(item.sentence), item.cited) < LEXICAL_SUPPORT_THRESHOLD) {
+        reason = "引用片段与论断的关键词重合度过低";
+      }
+    }
+
+    if (reason) {
+      unsupportedClaims.push({ sentence: item.sentence, markers: item.markers, reason });
+      if (policy === "flag") kept.push(`${item.sentence}（未经证实）`);
+    } else {
+      kept.push(item.sentence);
+      item.markers.forEach((m) => usedMarkers.add(m));
+    }
+  }
+
+  const citations = [...usedMarkers]
+    .sort((a, b) => a - b)
+    .map((marker) => {
+      const chunk = chunks[marker - 1];
+      return { marker, chunkId: chunk.id, source: chunk.source, title: chunk.title, excerpt: chunk.text.slice(0, 80) };
+    });
+
+  // 中文句子直接拼接，英文句子之间补空格
+  const text = kept.reduce((acc, s) => acc + (/[\w.!?\]]$/.test(acc) && /^\w/.test(s) ? " " : "") + s, "");
+  return { answer: text, citations, unsupportedClaims };
+}
+
+export { verifyAnswer, splitSentences, citedMarkers };
+export type { GroundedAnswer, Citation, UnsupportedClaim, UnsupportedPolicy };
@@ -0,0 +1,176 @@
+/**
+ * RAG 向量索引 (Vector Index)
+ *
+ * 功能概述：
+ * 把知识库片段向量化后保存在本地 JSON 文件中，检索时按余弦相似度返回 top-k 片段。
+ *
+ * 设计要点：
+ * 1. 本地落盘：索引文件记录 embedding 名称、知识库目录、每个文件的修改时间和所有片段向量
+ * 2. 自动重建：embedding 实现变化、知识库文件增删改时，索引视为过期并重建
+ * 3. 原子写入：复用 writeJsonAtomic，重建中途崩溃不会留下损坏的索引
+ * 4. 进程内缓存：索引只在首次使用时读盘；之后每次获取时检查知识库文件的修改时间（只 stat，不读内容），
+ *    过期时重新加载，服务运行期间修改知识库也能检索到新内容
+ *
+ * 环境变量：
+ * - RAG_DOCS_DIR：知识库目录（默认 ./assets/knowledge）
+ * - RAG_INDEX_PATH：索引文件路径（默认 ./.rag/index.json）
+ *
+ * 命令行：npm run rag:index [查询]  —— 重建索引，可选地执行一次检索
+ */
+
+import { existsSync } from "fs";
+import { join, resolve } from "path";
+import { cosine, createEmbeddings, type EmbeddingProvider } from "./rag_embeddings";
+import { ingestDirectory, sourceVersions, type DocumentChunk } from "./rag_ingest";
+import { readJsonFile, writeJsonAtomic } from "./json_file";
+
+type IndexedChunk = DocumentChunk & { vector: number[] };
+
+type IndexFile = {
+  version: 1;
+  embedder: string;                 // EmbeddingProvider.name
+  docsDir: string;
+  sources: Record<string, number>;  // 文件 -> 修改时间
+  createdAt: string;
+  chunks: IndexedChunk[];
+};
+
+type SearchResult = {
+  chunk: DocumentChunk;
+  score: number; // 余弦相似度
+};
+
+const INDEX_VERSION = 1;
+
+const defaultDocsDir = () => resolve(process.env.RAG_DOCS_DIR ?? join(process.cwd(), "assets/knowledge"));
+const defaultIndexPath = () => resolve(process.env.RAG_INDEX_PATH ?? join(process.cwd(), ".rag/index.json"));
+
+class VectorIndex {
+  private file: IndexFile;
+  private provider: EmbeddingProvider;
+
+  constructor(file: IndexFile, provider: EmbeddingProvider) {
+    this.file = file;
+    this.provider = provider;
+  }
+
+  get size() {
+    return this.file.chunks.length;
+  }
+
+  get chunks(): DocumentChunk[] {
+    return this.file.chunks.map(({ vector, ...chunk }) => chunk);
+  }
+
+  /**
+   * 与当前知识库相比是否已过期（文件增删改或知识库目录变化），返回原因；未过期返回 undefined
+   */
+  staleReason(docsDir = defaultDocsDir()): string | undefined {
+    return staleReason(this.file, docsDir, this.provider);
+  }
+
+  /**
+   * 导入知识库并构建索引，写入磁盘
+   */
+  static async build(docsDir = defaultDocsDir(), indexPath = defaultIndexPath(), provider = createEmbeddings()) {
+    const { chunks, sources } = ingestDirectory(docsDir);
+    console.log(`[RAG] 构建索引：${Object.keys(sources).length} 个文件，${chunks.length} 个片段，embedding=${provider.name}`);
+    // 标题参与向量化，片段脱离原文也能被按主题检索到
+    const vectors = await provider.embeddings.embedDocuments(chunks.map((c) => (c.title ? `${c.title}\n${c.text}` : c.text)));
+    const file: IndexFile = {
+      version: INDEX_VERSION,
+      embedder: provider.name,
+      docsDir,
+      sources,
+      createdAt: new Date().toISOString(),
+      chunks: chunks.map((chunk, i) => ({ ...chunk, vector: vectors[i].map((v) => Math.round(v * 1e6) / 1e6) })),
+    };
+    writeJsonAtomic(indexPath, file);
+    return new VectorIndex(file, provider);
+  }
+
+  /**
+   * 加载索引；不存在或已过期时重建
+   */
+  static async load(docsDir = defaultDocsDir(), indexPath = defaultIndexPath(), provider = createEmbeddings()) {
+    const file = existsSync(indexPath) ? readJsonFile<IndexFile | undefined>(indexPath, undefined) : undefined;
+    const reason = !file ? "索引不存在" : staleReason(file, docsDir, provider);
+    if (reason) {
+      console.log(`[RAG] ${reason}，重建索引`);
+      return VectorIndex.build(docsDir, indexPath, provider);
+    }
+    return new VectorIndex(file!, provider);
+  }
+
+  /**
+   * 相似度检索
+   * @param k 返回片段数
+   * @param minScore 低于该相似度的片段丢弃
+   */
+  async search(query: string, k: number, minScore = 0): Promise<SearchResult[]> {
+    const queryVector = await this.provider.embeddings.embedQuery(query);
+    if (queryVector.every((v) => v === 0)) return [];
+
+    return this.file.chunks
+      .map(({ vector, ...chunk }) => ({ chunk, score: cosine(queryVector, vector) }))
+      .filter((result) => result.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
+
+/**
+ * 判断索引是否过期，返回原因；未过期返回 undefined
+ */
+function staleReason(file: IndexFile, docsDir: string, provider: EmbeddingProvider): string | undefined {
+  if (file.version !== INDEX_VERSION) return "索引版本变化";
+  if (file.embedder !== provider.name) return `embedding 变化（${file.embedder} -> ${provider.name}）`;
+  if (file.docsDir !== docsDir) return "知识库目录变化";
+  const sources = sourceVersions(docsDir);
+  const names = new Set([...Object.keys(sources), ...Object.keys(file.sources)]);
+  for (const name of names) {
+    if (sources[name] !== file.sources[name]) return `知识库文件变化（${name}）`;
+  }
+  return undefined;
+}
+
+let cachedIndex: Promise<VectorIndex> | undefined;
+let loadedIndex: VectorIndex | undefined; // cachedIndex 加载完成后的索引，用于同步检查是否过期
+
+/**
+ * 获取进程内共享的索引（首次调用时加载或构建）；已加载的索引过期时重新加载
+ */
+function getVectorIndex(): Promise<VectorIndex> {
+  const reason = loadedIndex?.staleReason();
+  if (reason) {
+    console.log(`[RAG] ${reason}，重新加载索引`);
+    cachedIndex = undefined;
+    loadedIndex = undefined;
+  }
+  cachedIndex ??= VectorIndex.load()
+    .then((index) => (loadedIndex = index))
+    .catch((error) => {
+      cachedIndex = undefined;
+      throw error;
+    });
+  return cachedIndex;
+}
+
+export { VectorIndex, getVectorIndex };
+export type { SearchResult, IndexedChunk };
+
+async function main() {
+  const index = await VectorIndex.build();
+  console.log(`✅ 索引已写入 ${defaultIndexPath()}，共 ${index.size} 个片段`);
+  const query = process.argv[2];
+  if (!query) return;
+  console.log(`\n🔍 检索: "${query}"`);
+  for (const { chunk, score } of await index.search(query, 3)) {
+    console.log(`  [${score.toFixed(3)}] ${chunk.id}${chunk.title ? ` (${chunk.title})` : ""}: ${chunk.text.slice(0, 60)}`);
+  }
+}
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}
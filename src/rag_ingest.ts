@@ -0,0 +1,197 @@
+/**
+ * RAG 文档导入 (Document Ingestion)
+ *
+ * 功能概述：
+ * 读取知识库目录下的 Markdown、纯文本、JSON 文件，切分成适合检索的片段（chunk）。
+ *
+ * 设计要点：
+ * 1. 按格式解析：
+ *    - Markdown：按标题分节，片段带上所在章节标题，脱离上下文也能看懂
+ *    - 纯文本：按空行分段
+ *    - JSON：数组中的每个元素是一篇文档；对象元素优先取 title / content 字段
+ * 2. 切分策略：段落优先，尽量不在段落中间切断；超长段落再按句子、最后按字符切分
+ * 3. 片段重叠：相邻片段保留 overlap 个字符，避免关键信息恰好落在边界上
+ * 4. 稳定 ID：片段 ID 由 "文件路径#序号" 组成，便于引用和增量更新
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { extname, join, relative, sep } from "path";
+
+type DocumentChunk = {
+  id: string;         // "<source>#<序号>"
+  source: string;     // 相对知识库目录的文件路径
+  title?: string;     // 章节标题或 JSON 条目标题
+  text: string;       // 片段正文
+};
+
+type ChunkOptions = {
+  chunkSize: number;  // 单个片段的最大字符数
+  overlap: number;    // 相邻片段重叠的字符数
+};
+
+// 一个逻辑段落：同一标题下的一段文本
+type Section = { title?: string; text: string };
+
+const SUPPORTED_EXTENSIONS = [".md", ".markdown", ".txt", ".json"];
+
+const DEFAULT_CHUNK_OPTIONS: ChunkOptions = { chunkSize: 400, overlap: 60 };
+
+/**
+ * Markdown：按标题分节，正文按空行分段
+ */
+function parseMarkdown(content: string): Section[] {
+  const sections: Section[] = [];
+  let title: string | undefined;
+  for (const block of content.split(/\n\s*\n/)) {
+    const lines = block.trim().split("\n");
+    const heading = lines[0].match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      title = heading[1].trim();
+      lines.shift();
+    }
+    const text = lines.join("\n").trim();
+    if (text) sections.push({ title, text });
+  }
+  return sections;
+}
+
+/**
+ * 纯文本：按空行分段
+ */
+function parseText(content: string): Section[] {
+  return content
+    .split(/\n\s*\n/)
+    .map((text) => ({ text: text.trim() }))
+    .filter((section) => section.text);
+}
+
+/**
+ * JSON：数组元素或对象的每个键值是一篇文档
+ */
+function parseJson(content: string): Section[] {
+  const parsed = JSON.parse(content);
+  const entries: [string | undefined, unknown][] = Array.isArray(parsed)
+    ? parsed.map((item) => [undefined, item])
+    : Object.entries(parsed ?? {});
+
+  return entries
+    .map(([key, item]) => {
+      if (typeof item === "string") return { title: key, text: item };
+      const record = (item ?? {}) as Record<string, unknown>;
+      const title = typeof record.title === "string" ? record.title : key;
+      const body = record.content ?? record.text ?? record.answer;
+      return { title, text: typeof body === "string" ? body : JSON.stringify(item) };
+    })
+    .filter((section) => section.text.trim());
+}
+
+/**
+ * 把超长文本切成不超过 chunkSize 的小段：先按句子，句子仍然过长时按字符硬切
+ */
+function splitLongText(text: string, chunkSize: number): string[] {
+  if (text.length <= chunkSize) return [text];
+  const sentences = text.match(/[^。！？.!?\n]+[。！？.!?\n]*/g) ?? [text];
+  return sentences.flatMap((sentence) => {
+    const pieces: string[] = [];
+    for (let i = 0; i < sentence.length; i += chunkSize) pieces.push(sentence.slice(i, i + chunkSize));
+    return pieces;
+  });
+}
+
+/**
+ * 取文本结尾不超过 size 个字符作为重叠部分，从完整句子开始，避免从单词中间截断
+ */
+function overlapTail(text: string, size: number): string {
+  if (size <= 0) return "";
+  const tail = text.slice(-size);
+  if (tail.length === text.length) return tail;
+  const boundary = tail.search(/[。！？.!?\n]/);
+  return boundary >= 0 ? tail.slice(boundary + 1).trim() : "";
+}
+
+/**
+ * 合并段落为片段：同一标题下的段落尽量合并到 chunkSize，新片段以上一片段的结尾作为重叠开头
+ */
+function chunkSections(sections: Section[], options: ChunkOptions): Section[] {
+  const chunks: Section[] = [];
+  let current: Section | undefined;
+
+  const flush = () => {
+    if (current?.text.trim()) chunks.push({ title: current.title, text: current.text.trim() });
+  };
+
+  for (const section of sections) {
+    for (const piece of splitLongText(section.text, options.chunkSize)) {
+      if (current && current.title === section.title && current.text.length + piece.length + 1 <= options.chunkSize) {
+        current.text += `\n${piece}`;
+        continue;
+      }
+      // 同一节内换片段时带上重叠；换节时不重叠，避免把上一节的内容混进来
+      const overlap = current && current.title === section.title ? overlapTail(current.text, options.overlap) : "";
+      flush();
+      current = { title: section.title, text: overlap ? `${overlap}\n${piece}` : piece };
+    }
+  }
+  flush();
+  return chunks;
+}
+
+/**
+ * 解析单个文件并切分
+ * @param filePath 文件绝对路径
+ * @param source 片段记录的来源（相对路径）
+ */
+function chunkFile(filePath: string, source: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): DocumentChunk[] {
+  const content = readFileSync(filePath, "utf-8");
+  const ext = extname(filePath).toLowerCase();
+  const sections = ext === ".json" ? parseJson(content) : ext === ".txt" ? parseText(content) : parseMarkdown(content);
+  return chunkSections(sections, options).map((chunk, i) => ({ id: `${source}#${i}`, source, ...chunk }));
+}
+
+/**
+ * 列出目录下所有支持的文档文件（递归）
+ */
+function listDocumentFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) return listDocumentFiles(fullPath);
+    return entry.isFile() && SUPPORTED_EXTENSIONS.includes(extname(entry.name).toLowerCase()) ? [fullPath] : [];
+  });
+}
+
+/**
+ * 知识库中每个文件的修改时间（相对路径 -> mtime），用于判断索引是否过期
+ */
+function sourceVersions(dir: string): Record<string, number> {
+  if (!existsSync(dir)) return {};
+  return Object.fromEntries(
+    listDocumentFiles(dir).map((filePath) => [relative(dir, filePath).split(sep).join("/"), statSync(filePath).mtimeMs])
+  );
+}
+
+/**
+ * 导入整个知识库目录
+ * @returns 所有片段，以及每个文件的修改时间（用于判断索引是否过期）
+ */
+function ingestDirectory(dir: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS) {
+  const chunks: DocumentChunk[] = [];
+  const sources: Record<string, number> = {};
+  if (!existsSync(dir)) {
+    console.warn(`[RAG] 知识库目录不存在：${dir}`);
+    return { chunks, sources };
+  }
+  for (const filePath of listDocumentFiles(dir).sort()) {
+    const source = relative(dir, filePath).split(sep).join("/");
+    // 解析失败的文件也记录版本，文件修改前不会反复触发重建
+    sources[source] = statSync(filePath).mtimeMs;
+    try {
+      chunks.push(...chunkFile(filePath, source, options));
+    } catch (error) {
+      console.error(`[RAG] 解析文档失败，已跳过 ${source}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return { chunks, sources };
+}
+
+export { chunkFile, ingestDirectory, listDocumentFiles, sourceVersions, DEFAULT_CHUNK_OPTIONS };
+export type { DocumentChunk, ChunkOptions };
@@ -0,0 +1,176 @@
+/**
+ * RAG 混合检索 (Hybrid Retrieval)
+ *
+ * 功能概述：
+ * 同时查询向量索引和 BM25 关键词索引，用倒数排名融合（RRF）合并两路结果，再可选地重排序，返回 top-k 片段。
+ *
+ * 设计要点：
+ * 1. 两路召回：向量检索擅长语义相近的问法，BM25 擅长产品编号、错误码等精确字面
+ * 2. RRF 融合：score = Σ 1 / (RRF_K + rank)，只依赖排名，不需要把余弦相似度和 BM25 得分归一化到同一尺度
+ * 3. 可选重排序：
+ *    - llm：让模型给每个候选片段的相关性打 0-10 分
+ *    - cross-encoder：调用兼容 Jina / Cohere /rerank 接口的交叉编码器服务（如 bge-reranker）
+ *    重排序失败时记录日志并保留融合顺序，检索不会因此中断
+ * 4. 分数可追溯：每个结果保留向量、BM25、融合、重排序各自的得分与排名，写入 RagState 便于调试
+ *
+ * 环境变量：
+ * - RAG_RERANK：none | llm | cross-encoder（默认 none）
+ * - RAG_RERANK_URL / RAG_RERANK_MODEL / RAG_RERANK_API_KEY：cross-encoder 服务地址、模型与密钥
+ * - RAG_MIN_BM25：BM25 最低得分（默认 0.5）
+ */
+
+import { HumanMessage } from "@langchain/core/messages";
+import { createChatModel } from "./model_provider";
+import { Bm25Index } from "./rag_bm25";
+import { getVectorIndex, type VectorIndex } from "./rag_index";
+import type { DocumentChunk } from "./rag_ingest";
+
+type RerankMode = "none" | "llm" | "cross-encoder";
+
+type RetrievalOptions = {
+  k: number;               // 最终返回片段数
+  minVectorScore: number;  // 向量召回的最低余弦相似度
+  minBm25Score: number;    // BM25 召回的最低得分
+  rerank: RerankMode;
+};
+
+type RetrievalResult = {
+  chunk: DocumentChunk;
+  score: number;           // 最终排序依据：有重排序时为 rerank，否则为 fused
+  vector?: { score: number; rank: number };
+  bm25?: { score: number; rank: number };
+  fused: number;           // RRF 融合得分
+  rerank?: number;         // 重排序得分（0-1）
+};
+
+// RRF 常数：越大则排名靠后的结果与靠前的差距越小
+const RRF_K = 60;
+
+const DEFAULT_RETRIEVAL_OPTIONS: RetrievalOptions = {
+  k: 3,
+  minVectorScore: 0.1,
+  minBm25Score: Number(process.env.RAG_MIN_BM25 ?? 0.5),
+  rerank: (process.env.RAG_RERANK as RerankMode | undefined) ?? "none",
+};
+
+const rerankModel = createChatModel("rag.rerank", { temperature: 0 });
+
+/**
+ * LLM 重排序：模型对每个候选片段打分，输出 JSON 对象 {"编号": 分数}
+ */
+async function llmRerank(query: string, chunks: DocumentChunk[]): Promise<number[]> {
+  const candidates = chunks.map((chunk, i) => `[${i + 1}] ${chunk.title ? `${chunk.title}：` : ""}${chunk.text}`).join("\n\n");
+  const prompt = `你是检索结果的相关性评估员。请判断每个候选片段对回答问题的帮助程度，按 0-10 的整数打分。
+问题：${query}
+
+候选片段：
+${candidates}
+
+只输出 JSON 对象，键为片段编号，值为分数，例如 {"1": 8, "2": 3}。`;
+  const response = await rerankModel.invoke([new HumanMessage(prompt)]);
+  const match = String(response.content).match(/\{[\s\S]*\}/);
+  if (!match) throw new Error(`重排序输出不是 JSON：${String(response.content).slice(0, 80)}`);
+  const scores = JSON.parse(match[0]) as Record<string, unknown>;
+  return chunks.map((_, i) => {
+    const score = Number(scores[String(i + 1)]);
+    return Number.isFinite(score) ? Math.min(Math.max(score, 0), 10) / 10 : 0;
+  });
+}
+
+/**
+ * 交叉编码器重排序：请求体 {model, query, documents}，响应 {results: [{index, relevance_score}]}
+ */
+async function crossEncoderRerank(query: string, chunks: DocumentChunk[]): Promise<number[]> {
+  const url = process.env.RAG_RERANK_URL;
+  if (!url) throw new Error("cross-encoder 重排序需要配置 RAG_RERANK_URL");
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(process.env.RAG_RERANK_API_KEY ? { Authorization: `Bearer ${process.env.RAG_RERANK_API_KEY}` } : {}),
+    },
+    body: JSON.stringify({
+      model: process.env.RAG_RERANK_MODEL ?? "bge-reranker-v2-m3",
+      query,
+      documents: chunks.map((chunk) => (chunk.title ? `${chunk.title}\n${chunk.text}` : chunk.text)),
+    }),
+  });
+  if (!response.ok) throw new Error(`重排序服务返回 HTTP ${response.status}`);
+  const { results } = (await response.json()) as { results: { index: number; relevance_score: number }[] };
+  const scores = new Array<number>(chunks.length).fill(0);
+  for (const { index, relevance_score } of results) scores[index] = relevance_score;
+  return scores;
+}
+
+class HybridRetriever {
+  private vectorIndex: VectorIndex;
+  private bm25: Bm25Index;
+
+  constructor(vectorIndex: VectorIndex) {
+    this.vectorIndex = vectorIndex;
+    this.bm25 = new Bm25Index(vectorIndex.chunks);
+  }
+
+  /**
+   * 混合检索
+   * 每路召回 k 的 4 倍候选，融合后取 k 的 2 倍交给重排序，最后截取 k 个
+   */
+  async search(query: string, options: Partial<RetrievalOptions> = {}): Promise<RetrievalResult[]> {
+    const { k, minVectorScore, minBm25Score, rerank } = { ...DEFAULT_RETRIEVAL_OPTIONS, ...options };
+    if (!["none", "llm", "cross-encoder"].includes(rerank)) {
+      throw new Error(`未知的重排序方式：${rerank}（可选 none | llm | cross-encoder）`);
+    }
+    const poolSize = Math.max(k * 4, 10);
+    const vectorHits = await this.vectorIndex.search(query, poolSize, minVectorScore);
+    const bm25Hits = this.bm25.search(query, poolSize, minBm25Score);
+
+    const merged = new Map<string, RetrievalResult>();
+    const entry = (chunk: DocumentChunk) => {
+      const existing = merged.get(chunk.id) ?? { chunk, score: 0, fused: 0 };
+      merged.set(chunk.id, existing);
+      return existing;
+    };
+    vectorHits.forEach(({ chunk, score }, i) => {
+      const result = entry(chunk);
+      result.vector = { score, rank: i + 1 };
+      result.fused += 1 / (RRF_K + i + 1);
+    });
+    bm25Hits.forEach(({ chunk, score }, i) => {
+      const result = entry(chunk);
+      result.bm25 = { score, rank: i + 1 };
+      result.fused += 1 / (RRF_K + i + 1);
+    });
+
+    const fused = [...merged.values()].sort((a, b) => b.fused - a.fused);
+    fused.forEach((result) => (result.score = result.fused));
+    if (rerank === "none" || fused.length === 0) return fused.slice(0, k);
+
+    const candidates = fused.slice(0, k * 2);
+    try {
+      const scores = await (rerank === "llm" ? llmRerank : crossEncoderRerank)(query, candidates.map((c) => c.chunk));
+      candidates.forEach((result, i) => {
+        result.rerank = scores[i];
+        result.score = scores[i];
+      });
+      // 重排序得分相同时保留融合顺序（sort 是稳定排序）
+      return candidates.sort((a, b) => b.score - a.score).slice(0, k);
+    } catch (error) {
+      console.error(`[RAG] 重排序（${rerank}）失败，使用融合排序:`, error instanceof Error ? error.message : error);
+      return fused.slice(0, k);
+    }
+  }
+}
+
+let cachedRetriever: { index: VectorIndex; retriever: HybridRetriever } | undefined;
+
+/**
+ * 获取进程内共享的混合检索器；向量索引重新加载后（知识库变化）重建 BM25 索引
+ */
+async function getRetriever(): Promise<HybridRetriever> {
+  const index = await getVectorIndex();
+  if (cachedRetriever?.index !== index) cachedRetriever = { index, retriever: new HybridRetriever(index) };
+  return cachedRetriever.retriever;
+}
+
+export { HybridRetriever, getRetriever, DEFAULT_RETRIEVAL_OPTIONS };
+export type { RetrievalResult, RetrievalOptions, RerankMode };
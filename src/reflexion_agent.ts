@@ -1,7 +1,8 @@
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel } from "./model_provider";
+import { getCheckpointer, resumeOrInvoke } from "./checkpointer";
 
 /**
  * ============================================================
@@ -41,17 +42,11 @@ const ReflexionState = Annotation.Root({
  * 技巧：生成者需要发散思维(temp=0.7)，评论者需要严谨逻辑(temp=0)
  * ============================================================
  */
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-
 // 👨‍🎨 生成者：负责写初稿和修改
-const generatorModel = new ChatOpenAI({ ...CONFIG, temperature: 0.7 });
+const generatorModel = createChatModel("reflexion.generator", { temperature: 0.7 });
 
 // 🕵️‍♂️ 评论家：负责挑刺
-const criticModel = new ChatOpenAI({ ...CONFIG, temperature: 0 });
+const criticModel = createChatModel("reflexion.critic", { temperature: 0 });
 
 /**
  * ============================================================
@@ -165,7 +160,10 @@ const workflow = new StateGraph(ReflexionState)
     [END]: END            // 通过 -> 结束
   });
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("reflexion") });
+
+// 导出 app 供服务器使用
+export { app, ReflexionState };
 
 /**
  * ============================================================
@@ -182,7 +180,7 @@ async function main() {
   };
 
   // 运行并获取最终状态
-  const finalState = await app.invoke(inputs);
+  const finalState = await resumeOrInvoke(app, inputs, process.env.THREAD_ID);
   
   console.log("\n==========================================");
   console.log("🎉 最终产出内容:");
@@ -191,4 +189,8 @@ async function main() {
   console.log(`\n📊 统计: 共迭代 ${finalState.revisionNumber} 轮`);
 }
 
-main().catch(console.error);
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}
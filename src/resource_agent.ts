@@ -25,7 +25,9 @@
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel } from "./model_provider";
+import { SYSTEM_PROMPTS } from "./agent_prompts";
+import { getCheckpointer, threadConfig } from "./checkpointer";
 
 // 定义状态：任务、复杂度、成本、响应
 const ResourceState = Annotation.Root({
@@ -35,12 +37,7 @@ const ResourceState = Annotation.Root({
   response: Annotation<string>,                // 最终响应
 });
 
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-const baseModel = new ChatOpenAI({ ...CONFIG, temperature: 0 }); // temperature=0 确保分类的确定性
+const baseModel = createChatModel("resource", { temperature: 0 }); // temperature=0 确保分类的确定性
 
 /**
  * 分类节点：评估任务复杂度
@@ -66,7 +63,7 @@ async function classifierNode(state: typeof ResourceState.State) {
  */
 async function cheapModelNode(state: typeof ResourceState.State) {
   console.log(`\n⚡ [Flash Model] 使用高速低成本模型处理...`);
-  const res = await baseModel.invoke([new SystemMessage("你是一个追求速度的助手。请用最简练的话回答。"), new HumanMessage(state.task)]);
+  const res = await baseModel.invoke([new SystemMessage(SYSTEM_PROMPTS.resource_cheap.text), new HumanMessage(state.task)]);
   return { response: res.content as string, cost: 0.5 };
 }
 
@@ -78,7 +75,7 @@ async function cheapModelNode(state: typeof ResourceState.State) {
  */
 async function expensiveModelNode(state: typeof ResourceState.State) {
   console.log(`\n🐢 [Pro Model] 使用深度推理模型处理...`);
-  const res = await baseModel.invoke([new SystemMessage("你是一个深度思考的专家。请详细、全面地回答，展示你的推理能力。"), new HumanMessage(state.task)]);
+  const res = await baseModel.invoke([new SystemMessage(SYSTEM_PROMPTS.resource_expensive.text), new HumanMessage(state.task)]);
   return { response: res.content as string, cost: 10.0 };
 }
 
@@ -98,7 +95,10 @@ const workflow = new StateGraph(ResourceState)
   .addEdge("cheap", END)
   .addEdge("expensive", END);
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("resource") });
+
+// 导出 app 供服务器使用
+export { app, ResourceState };
 
 import * as readline from "readline";
 
@@ -122,7 +122,7 @@ async function main() {
     if (!task) {
       break;
     }
-    const res = await app.invoke({ task });
+    const res = await app.invoke({ task }, threadConfig());
     console.log(`💬 回复: ${res.response.slice(0, 200)}\n💰 本次花费: ${res.cost}`);
     totalCost += res.cost;
   }
@@ -131,4 +131,8 @@ async function main() {
 
   rl.close();
 }
-main().catch(console.error);
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}
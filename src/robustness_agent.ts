@@ -26,7 +26,9 @@
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel } from "./model_provider";
+import { SYSTEM_PROMPTS } from "./agent_prompts";
+import { getCheckpointer, threadConfig } from "./checkpointer";
 
 // 定义状态：任务、尝试次数、错误列表、结果
 const RobustState = Annotation.Root({
@@ -36,12 +38,7 @@ const RobustState = Annotation.Root({
   result: Annotation<string>,                                                   // 最终结果
 });
 
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-const model = new ChatOpenAI({ ...CONFIG, temperature: 0.5 }); // 适中的创造性
+const model = createChatModel("robustness", { temperature: 0.5 }); // 适中的创造性
 
 /**
  * 主处理节点：执行任务（可能失败）
@@ -59,7 +56,7 @@ async function unstableToolNode(state: typeof RobustState.State) {
     return { attempts: attempts + 1, errors: [`Attempt ${attempts + 1}: Connection Timeout`] };
   }
   console.log("   ✅ 调用成功！");
-  const response = await model.invoke([new SystemMessage("你是一个主处理单元。请处理用户任务。"), new HumanMessage(task)]);
+  const response = await model.invoke([new SystemMessage(SYSTEM_PROMPTS.robustness_primary.text), new HumanMessage(task)]);
   return { result: response.content as string, attempts: attempts + 1 };
 }
 
@@ -98,11 +95,18 @@ const workflow = new StateGraph(RobustState)
   .addConditionalEdges("primary_tool", routeLogic, { primary_tool: "primary_tool", fallback: "fallback", [END]: END })
   .addEdge("fallback", END);
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("robustness") });
+
+// 导出 app 供服务器使用
+export { app, RobustState };
 
 async function main() {
   console.log("🚀 开始任务：模拟不稳定环境...");
-  const finalState = await app.invoke({ task: "分析 2024 年 Q3 财报数据" });
+  const finalState = await app.invoke({ task: "分析 2024 年 Q3 财报数据" }, threadConfig());
   console.log("\n====== 最终结果 ======\n" + finalState.result);
 }
-main().catch(console.error);
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}
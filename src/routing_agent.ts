@@ -20,7 +20,9 @@
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel } from "./model_provider";
+import { SYSTEM_PROMPTS } from "./agent_prompts";
+import { getCheckpointer, threadConfig } from "./checkpointer";
 
 // 定义状态：请求内容、路由目标、最终响应
 const RoutingState = Annotation.Root({
@@ -29,12 +31,7 @@ const RoutingState = Annotation.Root({
   response: Annotation<string>,     // 最终响应
 });
 
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-const model = new ChatOpenAI({ ...CONFIG, temperature: 0 }); // temperature=0 确保路由决策的确定性
+const model = createChatModel("routing", { temperature: 0 }); // temperature=0 确保路由决策的确定性
 
 /**
  * 路由节点：分析用户请求，决定路由到哪个专业处理节点
@@ -45,12 +42,7 @@ const model = new ChatOpenAI({ ...CONFIG, temperature: 0 }); // temperature=0 
 async function routerNode(state: typeof RoutingState.State) {
   const { request } = state;
   console.log(`\n🧭 [Router] 正在分析用户意图: "${request}"`);
-  const prompt = `你是一个路由助手。请分析用户的请求，将其归类为以下之一：
-  - "TECH": 如果是关于编程、代码、计算机技术的问题。
-  - "LIFE": 如果是关于生活建议、情感、烹饪等问题。
-  - "GENERAL": 其他所有问题。
-  只返回分类关键词，不要包含其他字符。`;
-  const response = await model.invoke([new SystemMessage(prompt), new HumanMessage(request)]);
+  const response = await model.invoke([new SystemMessage(SYSTEM_PROMPTS.routing_router.text), new HumanMessage(request)]);
   const category = response.content.toString().trim().toUpperCase();
   let destination = "general_agent";
   if (category.includes("TECH")) destination = "tech_agent";
@@ -67,7 +59,7 @@ async function techNode(state: typeof RoutingState.State) {
   const { request } = state;
   console.log(`💻 [Tech Expert] 正在处理技术问题...`);
   const response = await model.invoke([
-    new SystemMessage("你是一名资深架构师和代码专家。请用代码块和技术术语回答。"),
+    new SystemMessage(SYSTEM_PROMPTS.routing_tech.text),
     new HumanMessage(request)
   ]);
   return { response: response.content as string };
@@ -81,7 +73,7 @@ async function lifeNode(state: typeof RoutingState.State) {
   const { request } = state;
   console.log(`🌻 [Life Coach] 正在处理生活问题...`);
   const response = await model.invoke([
-    new SystemMessage("你是一名温柔的生活顾问和心理学家。请用温暖、富有同理心的语气回答。"),
+    new SystemMessage(SYSTEM_PROMPTS.routing_life.text),
     new HumanMessage(request)
   ]);
   return { response: response.content as string };
@@ -94,7 +86,7 @@ async function generalNode(state: typeof RoutingState.State) {
   const { request } = state;
   console.log(`🌐 [General Bot] 正在处理通用问题...`);
   const response = await model.invoke([
-    new SystemMessage("你是一名乐于助人的通用助手。"),
+    new SystemMessage(SYSTEM_PROMPTS.routing_general.text),
     new HumanMessage(request)
   ]);
   return { response: response.content as string };
@@ -128,14 +120,21 @@ const workflow = new StateGraph(RoutingState)
   .addEdge("life_agent", END)
   .addEdge("general_agent", END);
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("routing") });
+
+// 导出 app 供服务器使用
+export { app, RoutingState };
 
 async function main() {
   const inputs = ["如何用 Python 实现快速排序？", "最近心情很焦虑，怎么缓解压力？", "天空为什么是蓝色的？"];
   for (const input of inputs) {
     console.log(`\n--- New Request: ${input} ---`);
-    const finalState = await app.invoke({ request: input });
+    const finalState = await app.invoke({ request: input }, threadConfig());
     console.log(`✅ [Response]: ${finalState.response.slice(0, 50)}...`);
   }
 }
-main().catch(console.error);
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}
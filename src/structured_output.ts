@@ -0,0 +1,214 @@
+/**
+ * 结构化输出 (Structured Output)
+ *
+ * 功能概述：
+ * 让节点声明期望的 JSON 结构（schema），统一完成 "提示格式 -> 提取 JSON -> 校验 -> 修复/重问"，
+ * 返回带类型的结果，避免各节点各自用正则剥代码块再 JSON.parse，模型回复稍有偏差就让整张图崩溃。
+ *
+ * 设计要点：
+ * 1. 轻量 schema：schema.string / number / boolean / array / object / optional 组合描述结构，
+ *    同一份 schema 既生成提示词中的格式说明，又负责校验并给出带路径的错误信息（如 "steps[2]: 不能为空字符串"）
+ * 2. 宽松提取：去掉 ```json 代码块，截取第一个完整的 JSON 对象或数组，删除尾随逗号
+ * 3. 重问修复：解析或校验失败时，把模型的原回复和错误原因发回给模型，要求只输出修正后的 JSON，
+ *    最多重问 STRUCTURED_MAX_REPAIRS 次，仍失败时抛出包含每次错误原因的异常
+ *
+ * 环境变量：
+ * - STRUCTURED_MAX_REPAIRS：解析失败后的最大重问次数（默认 2）
+ */
+
+import { AIMessage, HumanMessage, type BaseMessage } from "@langchain/core/messages";
+import type { ChatModel } from "./model_provider";
+
+type Schema<T> = {
+  describe: string;                          // 写入提示词的格式说明
+  parse: (value: unknown, path: string) => T; // 校验失败时抛出 "路径: 原因" 形式的错误
+};
+
+type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type ObjectShape = Record<string, Schema<unknown>>;
+
+// optional 字段的 schema 带有该标记，object 据此生成 "key?" 并允许缺省
+type OptionalSchema<T> = Schema<T | undefined> & { optional: true };
+
+type InferObject<S extends ObjectShape> = {
+  [K in keyof S as S[K] extends OptionalSchema<unknown> ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as S[K] extends OptionalSchema<unknown> ? K : never]?: Infer<S[K]>;
+};
+
+// 环境变量不是非负整数（如拼写错误得到 NaN）时使用默认值 2
+const MAX_REPAIRS = (() => {
+  const value = Number(process.env.STRUCTURED_MAX_REPAIRS ?? 2);
+  return Number.isInteger(value) && value >= 0 ? value : 2;
+})();
+
+const fail = (path: string, reason: string): never => {
+  throw new Error(`${path || "(根)"}: ${reason}`);
+};
+
+const schema = {
+  string(options: { description?: string; allowEmpty?: boolean } = {}): Schema<string> {
+    return {
+      describe: `"${options.description ?? "字符串"}"`,
+      parse: (value, path) => {
+        if (typeof value !== "string") return fail(path, "应为字符串");
+        if (!options.allowEmpty && !value.trim()) return fail(path, "不能为空字符串");
+        return value.trim();
+      },
+    };
+  },
+
+  number(options: { description?: string; min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+    const range = options.min !== undefined && options.max !== undefined ? `${options.min}-${options.max} 的` : "";
+    return {
+      describe: options.description ?? `<${range}${options.integer ? "整数" : "数字"}>`,
+      parse: (value, path) => {
+        // 容忍 "8" 这类字符串形式的数字
+        const n = typeof value === "string" && value.trim() ? Number(value) : value;
+        if (typeof n !== "number" || !Number.isFinite(n)) return fail(path, "应为数字");
+        if (options.integer && !Number.isInteger(n)) return fail(path, "应为整数");
+        if (options.min !== undefined && n < options.min) return fail(path, `不能小于 ${options.min}`);
+        if (options.max !== undefined && n > options.max) return fail(path, `不能大于 ${options.max}`);
+        return n;
+      },
+    };
+  },
+
+  boolean(): Schema<boolean> {
+    return {
+      describe: "true | false",
+      parse: (value, path) => (typeof value === "boolean" ? value : fail(path, "应为 true 或 false")),
+    };
+  },
+
+  array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+    return {
+      describe: `[${item.describe}, ...]`,
+      parse: (value, path) => {
+        if (!Array.isArray(value)) return fail(path, "应为数组");
+        if (options.min !== undefined && value.length < options.min) return fail(path, `至少需要 ${options.min} 项`);
+        if (options.max !== undefined && value.length > options.max) return fail(path, `最多 ${options.max} 项`);
+        return value.map((v, i) => item.parse(v, `${path}[${i}]`));
+      },
+    };
+  },
+
+  object<S extends ObjectShape>(shape: S): Schema<InferObject<S>> {
+    const fields = Object.entries(shape);
+    return {
+      describe: `{${fields.map(([key, s]) => `"${key}"${"optional" in s ? "?" : ""}: ${s.describe}`).join(", ")}}`,
+      parse: (value, path) => {
+        if (!value || typeof value !== "object" || Array.isArray(value)) return fail(path, "应为 JSON 对象");
+        const result: Record<string, unknown> = {};
+        for (const [key, s] of fields) {
+          const parsed = s.parse((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+          if (parsed !== undefined) result[key] = parsed;
+        }
+        return result as InferObject<S>;
+      },
+    };
+  },
+
+  optional<T>(inner: Schema<T>): OptionalSchema<T> {
+    return {
+      optional: true,
+      describe: inner.describe,
+      parse: (value, path) => (value === undefined || value === null ? undefined : inner.parse(value, path)),
+    };
+  },
+};
+
+/**
+ * 从模型回复中提取 JSON 文本：去掉代码块标记，截取第一个括号配对完整的对象或数组，删除尾随逗号
+ * 尾随逗号与括号配对在同一次扫描中识别，字符串内的 ",]" ",}" 保持不变
+ */
+function extractJson(text: string): string {
+  const body = text.replace(/```(?:json)?/gi, "");
+  const start = body.search(/[[{]/);
+  if (start < 0) throw new Error("回复中没有 JSON 对象或数组");
+
+  let depth = 0;
+  let inString = false;
+  let end = -1;
+  let lastComma = -1;               // 字符串外最近一个逗号的位置，之后只出现空白时才可能是尾随逗号
+  const trailingCommas = new Set<number>();
+  for (let i = start; i < body.length && end < 0; i++) {
+    const ch = body[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+    } else if (/\s/.test(ch)) {
+      continue;
+    } else if (ch === ",") {
+      lastComma = i;
+      continue;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "[" || ch === "{") {
+      depth++;
+    } else if (ch === "]" || ch === "}") {
+      if (lastComma >= 0) trailingCommas.add(lastComma);
+      if (--depth === 0) end = i;
+    }
+    lastComma = -1;
+  }
+  if (end < 0) throw new Error("JSON 不完整（括号未闭合）");
+  let json = "";
+  for (let i = start; i <= end; i++) {
+    if (!trailingCommas.has(i)) json += body[i];
+  }
+  return json;
+}
+
+/**
+ * 按 schema 解析一段模型回复
+ */
+function parseStructured<T>(text: string, target: Schema<T>): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(text));
+  } catch (error) {
+    throw new Error(`JSON 解析失败：${error instanceof Error ? error.message : error}`);
+  }
+  return target.parse(value, "");
+}
+
+/**
+ * 调用模型并返回符合 schema 的结果；失败时把错误反馈给模型重问
+ * @param prompt 任务提示词，格式说明会自动追加在末尾
+ * @param label 日志与错误信息中的名称，如 "假设生成"
+ */
+async function invokeStructured<T>(
+  model: ChatModel,
+  prompt: string,
+  target: Schema<T>,
+  options: { label?: string; maxRepairs?: number } = {}
+): Promise<T> {
+  const { label = "结构化输出", maxRepairs = MAX_REPAIRS } = options;
+  const messages: BaseMessage[] = [
+    new HumanMessage(`${prompt}\n\n只输出 JSON，不要输出其他内容。格式：${target.describe}`),
+  ];
+  const errors: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const response = await model.invoke(messages);
+    const text = String(response.content);
+    try {
+      return parseStructured(text, target);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      errors.push(reason);
+      if (attempt === maxRepairs) break;
+      console.log(`   ⚠️ [${label}] 输出无法解析（${reason}），要求模型修正（${attempt + 1}/${maxRepairs}）`);
+      messages.push(
+        new AIMessage(text),
+        new HumanMessage(`你的输出无法解析：${reason}。请修正后重新输出，只输出 JSON，格式：${target.describe}`)
+      );
+    }
+  }
+  throw new Error(`[${label}] 模型输出在 ${maxRepairs} 次修正后仍不符合格式：${errors.join("；")}`);
+}
+
+export { schema, invokeStructured, parseStructured, extractJson };
+export type { Schema, Infer };
@@ -0,0 +1,84 @@
+/**
+ * Token 计数 (Tokenizer)
+ *
+ * 功能概述：
+ * 为上下文预算管理提供可插拔的 token 计数，统一成 { name, count(text) } 接口。
+ *
+ * 设计要点：
+ * 1. estimate（默认）：无依赖的估算，中文等 CJK 字符按 1 个 token，其余字符按 4 个一 token
+ * 2. tiktoken：使用 js-tiktoken 按 OpenAI 编码精确计数，首次使用时才加载词表
+ * 3. 可扩展：registerTokenizer 注册自定义实现（如其他模型的分词器），按名称选用
+ * 4. 消息计数：每条消息额外计入固定开销（角色、分隔符），与 OpenAI 的计费方式一致
+ *
+ * 环境变量：
+ * - TOKENIZER：estimate | tiktoken | 自定义名称（默认 estimate）
+ * - TOKENIZER_ENCODING：tiktoken 编码（默认 cl100k_base）
+ */
+
+import type { BaseMessage } from "@langchain/core/messages";
+
+type Tokenizer = {
+  name: string;
+  count: (text: string) => number;
+};
+
+// 每条消息的固定开销（角色名与分隔符）
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const estimateTokenizer: Tokenizer = {
+  name: "estimate",
+  count: (text) => {
+    const cjk = text.match(/[　-〿㐀-鿿＀-￯]/g)?.length ?? 0;
+    return cjk + Math.ceil((text.length - cjk) / 4);
+  },
+};
+
+function createTiktokenTokenizer(encoding = process.env.TOKENIZER_ENCODING ?? "cl100k_base"): Tokenizer {
+  // 延迟加载：词表较大，只在选用 tiktoken 时才读取
+  const { getEncoding } = require("js-tiktoken") as typeof import("js-tiktoken");
+  const encoder = getEncoding(encoding as Parameters<typeof getEncoding>[0]);
+  return { name: `tiktoken:${encoding}`, count: (text) => encoder.encode(text).length };
+}
+
+const factories = new Map<string, () => Tokenizer>([
+  ["estimate", () => estimateTokenizer],
+  ["tiktoken", () => createTiktokenTokenizer()],
+]);
+
+const instances = new Map<string, Tokenizer>();
+
+/**
+ * 注册自定义 tokenizer；同名时覆盖内置实现
+ */
+function registerTokenizer(name: string, factory: () => Tokenizer) {
+  factories.set(name, factory);
+  instances.delete(name);
+}
+
+/**
+ * 按名称获取 tokenizer（同一名称只创建一次）
+ */
+function getTokenizer(name = process.env.TOKENIZER ?? "estimate"): Tokenizer {
+  const cached = instances.get(name);
+  if (cached) return cached;
+  const factory = factories.get(name);
+  if (!factory) throw new Error(`未知的 tokenizer：${name}（可选 ${[...factories.keys()].join(" | ")}）`);
+  const tokenizer = factory();
+  instances.set(name, tokenizer);
+  return tokenizer;
+}
+
+/**
+ * 计算一条消息的 token 数：内容 + 固定开销；非文本内容按 JSON 计
+ */
+function countMessageTokens(message: BaseMessage, tokenizer = getTokenizer()): number {
+  const content = typeof message.content === "string" ? message.content : JSON.stringify(message.content);
+  return tokenizer.count(content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function countMessagesTokens(messages: BaseMessage[], tokenizer = getTokenizer()): number {
+  return messages.reduce((sum, message) => sum + countMessageTokens(message, tokenizer), 0);
+}
+
+export { getTokenizer, registerTokenizer, countMessageTokens, countMessagesTokens };
+export type { Tokenizer };
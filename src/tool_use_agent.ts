@@ -0,0 +1,117 @@
+/**
+ * 工具使用智能体 (Tool Use Agent) / ReAct 智能体
+ *
+ * 功能概述：
+ * 把 MCP Server 提供的工具交给模型，由模型自行决定何时调用哪个工具，
+ * 拿到工具结果后继续推理，直到给出不再调用工具的最终回答。
+ *
+ * 设计要点：
+ * 1. 工具来源：通过 mcp_tools.ts 加载 mcp.config.json 中所有 server 的工具
+ * 2. ReAct 循环：agent（思考/决定调用工具）-> tools（执行）-> agent ... -> End
+ * 3. 轮数上限：工具调用超过 MAX_TOOL_ROUNDS 轮后，不再绑定工具，强制模型基于已有结果作答
+ * 4. 工厂函数：工具需要异步加载（启动 server 进程），因此导出 createToolUseAgent(tools) 而非现成的 app
+ * 5. 工作流模式：Start -> Agent <-> Tools -> End
+ *
+ * 适用场景：
+ * - 需要计算、查询外部系统等模型自身无法完成的任务
+ * - 工具集合在运行时才确定（由配置文件决定接入哪些 MCP Server）
+ *
+ * 扩展方向：
+ * - 工具调用前加入人工审批（interrupt）
+ * - 按任务动态筛选工具，减少提示词长度
+ */
+
+import "dotenv/config";
+import { Annotation, StateGraph, END, messagesStateReducer } from "@langchain/langgraph";
+import { ToolNode } from "@langchain/langgraph/prebuilt";
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
+import type { StructuredToolInterface } from "@langchain/core/tools";
+import { createChatModel } from "./model_provider";
+import { getCheckpointer, threadConfig } from "./checkpointer";
+import { loadMcpTools } from "./mcp_tools";
+
+// 工具调用轮数上限
+const MAX_TOOL_ROUNDS = 5;
+
+const SYSTEM_PROMPT = "你是一个会使用工具的助手。需要计算或查询时调用合适的工具，拿到结果后用中文给出最终回答。";
+
+// 定义状态：对话消息、已执行的工具轮数
+const ToolUseState = Annotation.Root({
+  messages: Annotation<BaseMessage[]>({ reducer: messagesStateReducer, default: () => [] }), // 对话消息（含工具调用与结果）
+  toolRounds: Annotation<number>({ reducer: (x, y) => y, default: () => 0 }),              // 工具调用轮数
+});
+
+const model = createChatModel("tool_use", { temperature: 0 });
+
+/**
+ * 构建 ReAct 智能体
+ * @param tools 供模型调用的工具（通常来自 loadMcpTools）
+ */
+function createToolUseAgent(tools: StructuredToolInterface[]) {
+  const modelWithTools = model.bindTools(tools);
+
+  /**
+   * 思考节点：模型决定调用工具或直接回答
+   * 超过轮数上限时使用未绑定工具的模型，保证循环一定结束
+   */
+  async function agentNode(state: typeof ToolUseState.State) {
+    const exhausted = state.toolRounds >= MAX_TOOL_ROUNDS;
+    console.log(`\n🤔 [Agent] 第 ${state.toolRounds + 1} 轮思考${exhausted ? "（已达工具调用上限，直接作答）" : ""}...`);
+    const messages = [new SystemMessage(SYSTEM_PROMPT), ...state.messages];
+    const response = exhausted ? await model.invoke(messages) : await modelWithTools.invoke(messages);
+    for (const call of (response as AIMessage).tool_calls ?? []) {
+      console.log(`   🔧 调用工具 ${call.name}: ${JSON.stringify(call.args)}`);
+    }
+    return { messages: [response] };
+  }
+
+  /**
+   * 工具节点：执行本轮所有工具调用，结果以 ToolMessage 追加到消息中
+   */
+  const toolNode = new ToolNode(tools);
+  async function toolsNode(state: typeof ToolUseState.State) {
+    const { messages } = await toolNode.invoke({ messages: state.messages });
+    for (const message of messages as BaseMessage[]) {
+      console.log(`   📦 工具结果: ${String(message.content).slice(0, 80)}`);
+    }
+    return { messages, toolRounds: state.toolRounds + 1 };
+  }
+
+  /**
+   * 路由逻辑：最后一条消息包含工具调用则执行工具，否则结束
+   */
+  function shouldContinue(state: typeof ToolUseState.State) {
+    const last = state.messages[state.messages.length - 1] as AIMessage;
+    return last.tool_calls && last.tool_calls.length > 0 ? "tools" : END;
+  }
+
+  const workflow = new StateGraph(ToolUseState)
+    .addNode("agent", agentNode)
+    .addNode("tools", toolsNode)
+    .addEdge("__start__", "agent")
+    .addConditionalEdges("agent", shouldContinue, { tools: "tools", [END]: END })
+    .addEdge("tools", "agent");
+
+  return workflow.compile({ checkpointer: getCheckpointer("tool_use") });
+}
+
+export { createToolUseAgent, ToolUseState };
+
+async function main() {
+  const { tools, close } = await loadMcpTools();
+  try {
+    console.log(`🧰 可用工具: ${tools.map((t) => t.name).join(", ")}`);
+    const app = createToolUseAgent(tools);
+    const question = process.argv[2] ?? "请帮我计算 7 与 35 相加的结果";
+    const finalState = await app.invoke({ messages: [new HumanMessage(question)] }, threadConfig());
+    const answer = finalState.messages[finalState.messages.length - 1];
+    console.log("\n====== 最终回答 ======\n" + answer.content);
+  } finally {
+    await close();
+  }
+}
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -2,117 +2,436 @@
  * 思维树智能体 (Tree of Thoughts Agent)
  * 
  * 功能概述：
- * 实现 Tree of Thoughts (ToT) 算法：生成多个解题思路，评估每个思路的可行性，
- * 选择最佳思路并基于其生成最终解决方案。
+ * 实现 Tree of Thoughts (ToT) 算法：把解题过程看作一棵树，每个节点是一个部分方案（从根到该节点的思路步骤），
+ * 逐层扩展出多个下一步、评估每个部分方案的前景，按搜索策略选出最佳路径，再基于它生成最终解决方案。
  * 
  * 设计要点：
- * 1. 思路生成：生成多个不同的解题思路（发散思维）
- * 2. 思路评估：对每个思路进行评分和可行性分析
- * 3. 最优选择：选择得分最高的思路
- * 4. 方案生成：基于最佳思路生成完整解决方案
- * 5. 工作流模式：Start -> Propose -> Evaluate -> Solve -> End
+ * 1. 思路扩展：对一个节点生成 branching 个不同的下一步（发散思维），作为它的子节点
+ * 2. 思路评估：对每个部分方案打 0-10 分；分数按部分方案的完整文本缓存（scoreCache）
+ *    - 同一次搜索中树上的路径互不相同，缓存主要在同一线程再次搜索时生效：init 不清空 scoreCache，
+ *      对同一问题重新搜索时，模型再次提出的相同部分方案直接复用之前的评估
+ * 3. 搜索策略（searchMode）：
+ *    - bfs：束搜索，逐层扩展当前保留的所有节点，每层只保留得分最高的 beamWidth 个，直到 maxDepth
+ *    - dfs：深度优先，优先深入得分最高的子节点；得分低于 PRUNE_THRESHOLD 的子节点剪枝，
+ *      一个节点的子节点全被剪枝时回溯到上一个候选节点，到达 maxDepth 且得分达标即停止
+ *    - mcts：蒙特卡洛树搜索，每次模拟按 UCT 从根选择到叶子、扩展一次，再由模型快速推演剩余步骤并估计成功可能性（0-1），
+ *      代替 0-10 的单次打分，价值沿路径回传；用完 simulations 次模拟后沿访问次数最多的子节点得到最佳路径
+ * 4. 扩展上限：bfs / dfs 最多扩展 MAX_EXPANSIONS 个节点，超过后在已评估的节点中选得分最高的；
+ *    扩展数（MAX_EXPANSION_LIMIT）与模拟次数（MAX_SIMULATIONS）都有上限，保证循环步数不超过 LangGraph 默认的 25 步递归上限
+ * 5. 完整记录：探索过的所有节点（含得分、评估、访问统计和状态）保存在 tree 中，便于检查搜索过程
+ * 6. 工作流模式：Start -> Init -> Search（每次扩展一层、一个节点或完成一次模拟，循环）-> Solve -> End
  * 
  * 适用场景：
  * - 复杂问题求解（需要探索多种方案）
  * - 创新性任务（需要发散思维）
  * - 决策支持（需要评估多个选项）
- * 
- * 扩展方向：
- * - 实现多轮迭代（基于评估结果改进思路）
- * - 添加思路的详细展开（树状结构）
- * - 支持并行评估多个思路
+ *
+ * 环境变量：
+ * - TOT_SEARCH：默认搜索策略 bfs / dfs / mcts（默认 bfs）
+ * - TOT_BRANCHING / TOT_DEPTH / TOT_BEAM_WIDTH：默认分支数（3，最多 MAX_BRANCHING）、深度（3）、束宽（2）
+ * - TOT_PRUNE_THRESHOLD：dfs 剪枝分数线（默认 6）
+ * - TOT_MAX_EXPANSIONS：最多扩展的节点数（默认 10，最多 MAX_EXPANSION_LIMIT）
+ * - TOT_SIMULATIONS：mcts 默认模拟次数（默认 8，最多 MAX_SIMULATIONS）
+ * - TOT_UCT_C：UCT 的探索系数（默认 1.4）
  */
 
 import "dotenv/config";
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
 import { HumanMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel } from "./model_provider";
+import { getCheckpointer, threadConfig } from "./checkpointer";
+import { invokeStructured, schema } from "./structured_output";
+
+type SearchMode = "bfs" | "dfs" | "mcts";
+
+// frontier：等待扩展；expanded：已扩展；pruned：被剪枝或未进入束
+type ThoughtStatus = "frontier" | "expanded" | "pruned";
+
+type ThoughtNode = {
+  id: string;          // "n0" 为根节点，thought 为问题本身
+  parentId?: string;
+  depth: number;       // 根节点为 0
+  thought: string;     // 本节点新增的一步思路
+  score?: number;      // 部分方案的得分（0-10），根节点没有
+  evaluation?: string;
+  status: ThoughtStatus;
+  visits?: number;     // mcts：经过该节点的模拟次数
+  totalValue?: number; // mcts：回传价值之和，平均价值 = totalValue / visits
+  value?: number;      // mcts：首次推演估计的成功可能性（0-1），叶子节点再次被选中时直接复用
+};
+
+type CachedEvaluation = { score: number; evaluation: string };
+
+const SEARCH_MODES: SearchMode[] = ["bfs", "dfs", "mcts"];
+const BRANCHING = Number(process.env.TOT_BRANCHING ?? 3);
+const DEPTH = Number(process.env.TOT_DEPTH ?? 3);
+const BEAM_WIDTH = Number(process.env.TOT_BEAM_WIDTH ?? 2);
+const PRUNE_THRESHOLD = Number(process.env.TOT_PRUNE_THRESHOLD ?? 6);
+const MAX_BRANCHING = 10; // 每个节点最多扩展的子节点数
+const MAX_EXPANSION_LIMIT = 20; // dfs 每扩展一个节点占一步，受 LangGraph 默认的 25 步递归上限约束
+const MAX_EXPANSIONS = Math.min(Number(process.env.TOT_MAX_EXPANSIONS ?? 10), MAX_EXPANSION_LIMIT);
+const SIMULATIONS = Number(process.env.TOT_SIMULATIONS ?? 8);
+const MAX_SIMULATIONS = 20; // 每次模拟占一步，受 LangGraph 默认的 25 步递归上限约束
+const UCT_C = Number(process.env.TOT_UCT_C ?? 1.4);
 
-// 定义状态：问题、思路列表、评估列表、最佳思路、最终方案
+// 定义状态：问题、搜索参数、思维树、待扩展节点、评估缓存、模拟次数、最佳路径、最终方案
 const ToTState = Annotation.Root({
-  problem: Annotation<string>,                                                      // 待解决的问题
-  thoughts: Annotation<string[]>({ reducer: (x, y) => y ?? x, default: () => [] }),  // 生成的思路列表
-  evaluations: Annotation<string[]>({ reducer: (x, y) => y ?? x, default: () => [] }), // 每个思路的评估
-  bestThought: Annotation<string>,                                                 // 最佳思路
-  finalSolution: Annotation<string>,                                              // 最终解决方案
+  problem: Annotation<string>,                                                                          // 待解决的问题
+  searchMode: Annotation<string>({ reducer: (x, y) => y ?? x, default: () => process.env.TOT_SEARCH ?? "bfs" }), // 搜索策略
+  branching: Annotation<number>({ reducer: (x, y) => y ?? x, default: () => BRANCHING }),               // 每个节点扩展的子节点数
+  maxDepth: Annotation<number>({ reducer: (x, y) => y ?? x, default: () => DEPTH }),                     // 最大深度（思路步数）
+  beamWidth: Annotation<number>({ reducer: (x, y) => y ?? x, default: () => BEAM_WIDTH }),               // bfs 每层保留的节点数
+  simulations: Annotation<number>({ reducer: (x, y) => y ?? x, default: () => SIMULATIONS }),            // mcts 模拟次数
+  tree: Annotation<ThoughtNode[]>({ reducer: (x, y) => y ?? x, default: () => [] }),                     // 探索过的所有节点（每次整体替换）
+  frontier: Annotation<string[]>({ reducer: (x, y) => y ?? x, default: () => [] }),                      // bfs：当前层保留的节点；dfs：候选栈（栈顶在末尾）；mcts：搜索结束前只有根节点
+  expansions: Annotation<number>({ reducer: (x, y) => y ?? x, default: () => 0 }),                       // 已扩展的节点数
+  simulationsDone: Annotation<number>({ reducer: (x, y) => y ?? x, default: () => 0 }),                  // mcts 已完成的模拟次数
+  scoreCache: Annotation<Record<string, CachedEvaluation>>({ reducer: (x, y) => ({ ...x, ...y }), default: () => ({}) }), // 部分方案 -> 评估结果（跨多次搜索保留）
+  bestPath: Annotation<string[]>({ reducer: (x, y) => y ?? x, default: () => [] }),                      // 最佳路径上的思路步骤
+  bestThought: Annotation<string>,                                                                        // 最佳路径的文本形式
+  finalSolution: Annotation<string>,                                                                      // 最终解决方案
 });
 
-const CONFIG = {
-  apiKey: process.env.OPENAI_API_KEY,
-  configuration: { baseURL: "https://api.moonshot.cn/v1" },
-  modelName: "kimi-k2-turbo-preview",
-};
-const model = new ChatOpenAI({ ...CONFIG, temperature: 0.7 }); // 适中的创造性，鼓励思路多样性
+const model = createChatModel("tot", { temperature: 0.7 }); // 适中的创造性，鼓励思路多样性
+
+// 思路生成的输出结构：思路字符串数组，多于 branching 的部分丢弃
+const ThoughtsSchema = schema.array(schema.string({ description: "解决思路" }), { min: 1 });
+
+// mcts 推演的输出结构：补全的后续步骤和成功可能性
+const RolloutSchema = schema.object({
+  steps: schema.optional(schema.array(schema.string({ description: "补全的后续步骤" }))),
+  value: schema.number({ min: 0, max: 1, description: "<0-1 之间的成功可能性>" }),
+});
+
+const formatPath = (steps: string[]) => steps.map((step, i) => `${i + 1}. ${step}`).join("\n");
 
 /**
- * 思路生成节点：生成多个不同的解题思路
- * 设计要点：
- * - 要求思路"截然不同"，鼓励发散思维
- * - 使用 JSON 格式返回，便于解析
+ * 从根到节点的思路步骤（不含根节点的问题本身）
  */
-async function proposeNode(state: typeof ToTState.State) {
-  const { problem } = state;
-  console.log(`\n🌱 [Proposer] 正在发散 3 种解题思路...`);
-  const prompt = `用户问题: "${problem}"\n请提出 3 种截然不同的解决思路。请用 JSON 数组格式返回。`;
-  const response = await model.invoke([new HumanMessage(prompt)]);
-  const content = response.content.toString().replace(/```json|```/g, "").trim();
-  const thoughts = JSON.parse(content);
-  return { thoughts };
+function pathOf(byId: Map<string, ThoughtNode>, node: ThoughtNode): string[] {
+  const steps: string[] = [];
+  for (let current: ThoughtNode | undefined = node; current?.parentId !== undefined; current = byId.get(current.parentId)) {
+    steps.unshift(current.thought);
+  }
+  return steps;
 }
 
 /**
- * 评估节点：评估每个思路的可行性并打分
+ * 生成下一步思路
  * 设计要点：
- * - 顺序评估每个思路（实际应用可并行）
- * - 使用正则表达式提取分数
- * - 选择得分最高的思路作为最佳思路
- */
-async function evaluateNode(state: typeof ToTState.State) {
-  const { problem, thoughts } = state;
-  console.log(`\n⚖️ [Evaluator] 正在评估每个思路的可行性...`);
-  const evaluations = [];
-  let bestThought = thoughts[0];
-  let maxScore = -1;
-  for (const thought of thoughts) {
-    const prompt = `问题: ${problem}\n解决思路: ${thought}\n请评估这个思路的可行性。最后给出一个 0-10 的整数打分。格式: "分析内容... SCORE: 8"`;
-    const res = await model.invoke([new HumanMessage(prompt)]);
-    const content = res.content as string;
-    evaluations.push(content);
-    const match = content.match(/SCORE:\s*(\d+)/);
-    const score = match ? parseInt(match[1]) : 0;
-    console.log(`📊 思路得分: ${score}`);
-    if (score > maxScore) { maxScore = score; bestThought = thought; }
+ * - 根节点要求思路"截然不同"，鼓励发散思维；更深的节点在部分方案的基础上细化一步
+ * - 按 ThoughtsSchema 输出 JSON 数组，格式不对时自动要求模型修正
+ */
+async function proposeThoughts(problem: string, steps: string[], branching: number): Promise<string[]> {
+  const prompt = steps.length === 0
+    ? `用户问题: "${problem}"\n请提出 ${branching} 种截然不同的解决思路。`
+    : `用户问题: "${problem}"\n当前的部分方案:\n${formatPath(steps)}\n请在此基础上提出 ${branching} 种不同的下一步，每种只描述一步，让方案更具体。`;
+  const thoughts = await invokeStructured(model, prompt, ThoughtsSchema, { label: "思路生成" });
+  return [...new Set(thoughts)].slice(0, branching);
+}
+
+/**
+ * 评估一个部分方案，使用正则表达式提取分数
+ */
+async function evaluatePath(problem: string, steps: string[]): Promise<CachedEvaluation> {
+  const plan = steps.length === 1 ? `解决思路: ${steps[0]}` : `部分方案:\n${formatPath(steps)}`;
+  const prompt = `问题: ${problem}\n${plan}\n请评估这个思路的可行性。最后给出一个 0-10 的整数打分。格式: "分析内容... SCORE: 8"`;
+  const res = await model.invoke([new HumanMessage(prompt)]);
+  const evaluation = res.content as string;
+  const match = evaluation.match(/SCORE:\s*(\d+)/);
+  return { score: match ? Math.min(10, parseInt(match[1])) : 0, evaluation };
+}
+
+/**
+ * 生成一个节点的子节点（不评估），子节点追加到 tree
+ */
+async function createChildren(problem: string, tree: ThoughtNode[], node: ThoughtNode, branching: number): Promise<ThoughtNode[]> {
+  const steps = pathOf(new Map(tree.map((n) => [n.id, n])), node);
+  const thoughts = await proposeThoughts(problem, steps, branching);
+  const children = thoughts.map((thought, i): ThoughtNode => ({
+    id: `n${tree.length + i}`,
+    parentId: node.id,
+    depth: node.depth + 1,
+    thought,
+    status: "frontier",
+  }));
+  tree.push(...children);
+  node.status = "expanded";
+  return children;
+}
+
+/**
+ * 扩展一个节点：生成子节点并逐个评估（顺序评估，实际应用可并行）
+ * 新的评估结果写入 cache
+ */
+async function expandNode(
+  problem: string,
+  tree: ThoughtNode[],
+  node: ThoughtNode,
+  branching: number,
+  cache: Record<string, CachedEvaluation>
+): Promise<ThoughtNode[]> {
+  const steps = pathOf(new Map(tree.map((n) => [n.id, n])), node);
+  const children = await createChildren(problem, tree, node, branching);
+  for (const child of children) {
+    const key = [...steps, child.thought].join("\n");
+    const cached = cache[key];
+    Object.assign(child, cached ?? (cache[key] = await evaluatePath(problem, [...steps, child.thought])));
+    console.log(`📊 ${child.id}（深度 ${child.depth}）得分 ${child.score}${cached ? "（缓存）" : ""}: ${child.thought.slice(0, 30)}`);
   }
-  console.log(`🏆 最佳思路 (Score ${maxScore}): ${bestThought.slice(0, 30)}...`);
-  return { evaluations, bestThought };
+  return children;
+}
+
+/**
+ * mcts 推演：由模型快速补全剩余步骤，并估计最终解决问题的可能性
+ */
+async function rollout(problem: string, steps: string[], remaining: number) {
+  const prompt = `用户问题: "${problem}"
+当前的部分方案:
+${steps.length > 0 ? formatPath(steps) : "（尚未开始）"}
+请快速推演：${remaining > 0 ? `在此基础上补全剩余的最多 ${remaining} 步，然后` : ""}估计按这个方案最终解决问题的可能性（0-1）。`;
+  return invokeStructured(model, prompt, RolloutSchema, { label: "推演" });
 }
 
 /**
- * 求解节点：基于最佳思路生成完整解决方案
- * 设计要点：使用选定的最佳思路作为指导，生成详细方案
+ * 结束搜索：记录最佳路径，清空待扩展节点
+ */
+function finishSearch(tree: ThoughtNode[], best: ThoughtNode | undefined, bestThought?: string) {
+  const bestPath = best ? pathOf(new Map(tree.map((n) => [n.id, n])), best) : [];
+  bestThought ??= formatPath(bestPath);
+  if (best) console.log(`🏆 最佳路径 ${best.id}${best.score !== undefined ? ` (Score ${best.score})` : ""}:\n${bestThought}`);
+  return { bestPath, bestThought, frontier: [] as string[] };
+}
+
+/**
+ * 已评估节点中得分最高的；同分时取更深的（更完整的方案）
+ */
+const bestScored = (nodes: ThoughtNode[]) =>
+  nodes.filter((n) => n.score !== undefined).sort((a, b) => b.score! - a.score! || b.depth - a.depth)[0];
+
+/**
+ * 初始化节点：校验搜索参数，创建根节点
+ */
+async function initNode(state: typeof ToTState.State) {
+  const { problem, searchMode } = state;
+  if (!SEARCH_MODES.includes(searchMode as SearchMode)) {
+    throw new Error(`未知的搜索策略: ${searchMode}（可选 ${SEARCH_MODES.join(" / ")}）`);
+  }
+  const positive = (n: number) => Math.max(1, Math.floor(n));
+  const branching = Math.min(positive(state.branching), MAX_BRANCHING);
+  if (branching < state.branching) console.log(`⚠️ 分支数超过上限，按 ${MAX_BRANCHING} 个执行`);
+  const maxDepth = positive(state.maxDepth);
+  const beamWidth = positive(state.beamWidth);
+  const simulations = Math.min(positive(state.simulations), MAX_SIMULATIONS);
+  if (simulations < state.simulations) console.log(`⚠️ 模拟次数超过上限，按 ${MAX_SIMULATIONS} 次执行`);
+  const extra = searchMode === "bfs" ? `，束宽 ${beamWidth}` : searchMode === "mcts" ? `，模拟 ${simulations} 次` : "";
+  console.log(`\n🌱 [Init] 搜索策略 ${searchMode}，分支数 ${branching}，深度 ${maxDepth}${extra}`);
+  const root: ThoughtNode = { id: "n0", depth: 0, thought: problem, status: "frontier", ...(searchMode === "mcts" ? { visits: 0, totalValue: 0 } : {}) };
+  return { branching, maxDepth, beamWidth, simulations, tree: [root], frontier: [root.id], expansions: 0, simulationsDone: 0 };
+}
+
+/**
+ * 束搜索的一步：扩展当前层保留的所有节点，新的一层只保留得分最高的 beamWidth 个
+ */
+async function bfsStep(state: typeof ToTState.State, tree: ThoughtNode[], cache: Record<string, CachedEvaluation>) {
+  const { problem, branching, beamWidth, maxDepth } = state;
+  const byId = new Map(tree.map((n) => [n.id, n]));
+  const level = state.frontier.map((id) => byId.get(id)!);
+  console.log(`\n🌳 [BFS] 扩展第 ${level[0].depth} 层的 ${level.length} 个节点...`);
+
+  let expansions = state.expansions;
+  const children: ThoughtNode[] = [];
+  for (const node of level) {
+    if (expansions >= MAX_EXPANSIONS) break;
+    children.push(...(await expandNode(problem, tree, node, branching, cache)));
+    expansions++;
+  }
+
+  const beam = [...children].sort((a, b) => b.score! - a.score!).slice(0, beamWidth);
+  children.filter((c) => !beam.includes(c)).forEach((c) => (c.status = "pruned"));
+  console.log(`   保留: ${beam.map((n) => `${n.id}(${n.score})`).join(", ") || "（无）"}`);
+
+  if (beam.length === 0 || beam[0].depth >= maxDepth || expansions >= MAX_EXPANSIONS) {
+    if (expansions >= MAX_EXPANSIONS && beam[0]?.depth !== maxDepth) console.log(`   已达到扩展上限 ${MAX_EXPANSIONS}`);
+    return { tree, expansions, scoreCache: cache, ...finishSearch(tree, beam[0] ?? bestScored(tree)) };
+  }
+  return { tree, expansions, scoreCache: cache, frontier: beam.map((n) => n.id) };
+}
+
+/**
+ * 深度优先的一步：扩展栈顶节点；得分达标的子节点按得分从高到低入栈，全部不达标时回溯
+ */
+async function dfsStep(state: typeof ToTState.State, tree: ThoughtNode[], cache: Record<string, CachedEvaluation>) {
+  const { problem, branching, maxDepth } = state;
+  const byId = new Map(tree.map((n) => [n.id, n]));
+  const stack = [...state.frontier];
+  const node = byId.get(stack.pop()!)!;
+  console.log(`\n🌳 [DFS] 扩展节点 ${node.id}（深度 ${node.depth}）...`);
+
+  const children = await expandNode(problem, tree, node, branching, cache);
+  const expansions = state.expansions + 1;
+  const promising = children.filter((c) => c.score! >= PRUNE_THRESHOLD).sort((a, b) => b.score! - a.score!);
+  children.filter((c) => !promising.includes(c)).forEach((c) => (c.status = "pruned"));
+
+  if (promising.length > 0 && node.depth + 1 >= maxDepth) {
+    return { tree, expansions, scoreCache: cache, ...finishSearch(tree, promising[0]) };
+  }
+  if (promising.length === 0) {
+    console.log(`   ↩️ ${node.id} 的子节点得分都低于 ${PRUNE_THRESHOLD}，回溯${stack.length > 0 ? `到 ${stack[stack.length - 1]}` : ""}`);
+  } else {
+    stack.push(...[...promising].reverse().map((n) => n.id)); // 得分最高的在栈顶
+  }
+
+  if (stack.length === 0 || expansions >= MAX_EXPANSIONS) {
+    console.log(stack.length === 0 ? "   没有可继续探索的节点" : `   已达到扩展上限 ${MAX_EXPANSIONS}`);
+    return { tree, expansions, scoreCache: cache, ...finishSearch(tree, bestScored(tree)) };
+  }
+  return { tree, expansions, scoreCache: cache, frontier: stack };
+}
+
+const meanValue = (node: ThoughtNode) => (node.visits ? node.totalValue! / node.visits : 0);
+
+/**
+ * UCT：平均价值 + 探索项；未访问过的子节点优先
+ */
+const uct = (child: ThoughtNode, parentVisits: number) =>
+  child.visits ? meanValue(child) + UCT_C * Math.sqrt(Math.log(parentVisits) / child.visits) : Infinity;
+
+/**
+ * mcts 的一次模拟：选择 -> 扩展 -> 推演 -> 回传
+ * - 选择：从根开始，在已扩展的节点中按 UCT 选子节点，直到未扩展的节点
+ * - 扩展：该节点已被模拟过（或是根节点）且未到 maxDepth 时生成子节点，从第一个子节点开始推演
+ * - 推演：模型补全剩余步骤并估计成功可能性；到达 maxDepth 的叶子节点只估计一次，之后复用
+ * - 回传：价值累加到路径上的每个节点
+ */
+async function mctsStep(state: typeof ToTState.State, tree: ThoughtNode[]) {
+  const { problem, branching, maxDepth, simulations } = state;
+  const byId = new Map(tree.map((n) => [n.id, n]));
+  const childrenOf = (node: ThoughtNode) => tree.filter((n) => n.parentId === node.id);
+  const simulation = state.simulationsDone + 1;
+  console.log(`\n🎲 [MCTS] 第 ${simulation}/${simulations} 次模拟...`);
+
+  let node = byId.get("n0")!;
+  while (node.status === "expanded" && childrenOf(node).length > 0) {
+    const parentVisits = node.visits!;
+    node = childrenOf(node).reduce((best, child) => (uct(child, parentVisits) > uct(best, parentVisits) ? child : best));
+  }
+
+  let expansions = state.expansions;
+  if ((node.visits! > 0 || node.parentId === undefined) && node.depth < maxDepth) {
+    const children = await createChildren(problem, tree, node, branching);
+    children.forEach((c) => Object.assign(c, { visits: 0, totalValue: 0 }));
+    expansions++;
+    console.log(`   扩展 ${node.id}: ${children.map((c) => c.id).join(", ")}`);
+    node = children[0] ?? node;
+  }
+
+  const steps = pathOf(new Map(tree.map((n) => [n.id, n])), node);
+  let value = node.value;
+  if (value !== undefined && node.depth >= maxDepth) {
+    console.log(`   ${node.id} 是叶子节点，复用估值 ${value}`);
+  } else {
+    const result = await rollout(problem, steps, maxDepth - node.depth);
+    value = result.value;
+    if (node.value === undefined) {
+      node.value = value;
+      node.evaluation = `${result.steps && result.steps.length > 0 ? `推演: ${result.steps.join(" -> ")}；` : ""}可能性 ${value}`;
+    }
+    console.log(`   推演 ${node.id}（深度 ${node.depth}）价值 ${value}: ${node.thought.slice(0, 30)}`);
+  }
+
+  for (let current: ThoughtNode | undefined = node; current; current = current.parentId !== undefined ? byId.get(current.parentId) : undefined) {
+    current.visits = (current.visits ?? 0) + 1;
+    current.totalValue = (current.totalValue ?? 0) + value;
+  }
+
+  if (simulation < simulations) return { tree, expansions, simulationsDone: simulation };
+
+  // 模拟结束：沿访问次数最多的子节点（同次数取平均价值更高的）得到最佳路径
+  let best = byId.get("n0")!;
+  const statsLines: string[] = [];
+  for (;;) {
+    const visited = childrenOf(best).filter((c) => c.visits! > 0);
+    if (visited.length === 0) break;
+    best = visited.reduce((a, b) => (b.visits! > a.visits! || (b.visits === a.visits && meanValue(b) > meanValue(a)) ? b : a));
+    statsLines.push(`${best.depth}. ${best.thought}（访问 ${best.visits} 次，平均价值 ${meanValue(best).toFixed(2)}）`);
+  }
+  console.log(`   根节点共 ${byId.get("n0")!.visits} 次模拟，扩展 ${expansions} 个节点`);
+  return { tree, expansions, simulationsDone: simulation, ...finishSearch(tree, best.parentId !== undefined ? best : undefined, statsLines.join("\n")) };
+}
+
+/**
+ * 搜索节点：按搜索策略执行一步，找到最佳路径后清空 frontier
+ */
+async function searchNode(state: typeof ToTState.State) {
+  const tree = state.tree.map((n) => ({ ...n }));
+  const cache = { ...state.scoreCache };
+  if (state.searchMode === "mcts") return mctsStep(state, tree);
+  return state.searchMode === "dfs" ? dfsStep(state, tree, cache) : bfsStep(state, tree, cache);
+}
+
+/**
+ * 求解节点：基于最佳路径生成完整解决方案
+ * 设计要点：使用选定的最佳路径作为指导，生成详细方案
  */
 async function solveNode(state: typeof ToTState.State) {
   const { problem, bestThought } = state;
   console.log(`\n🚀 [Solver] 正在基于最佳思路解题...`);
-  const prompt = `问题: ${problem}\n选定的最佳思路: ${bestThought}\n请根据这个思路，写出完整的解决方案。`;
+  const prompt = `问题: ${problem}\n选定的最佳思路:\n${bestThought || "（无，直接解答）"}\n请根据这个思路，写出完整的解决方案。`;
   const res = await model.invoke([new HumanMessage(prompt)]);
   return { finalSolution: res.content as string };
 }
 
+/**
+ * 搜索后的路由：frontier 为空表示搜索结束
+ */
+function routeAfterSearch(state: typeof ToTState.State) {
+  return state.frontier.length > 0 ? "search" : "solve";
+}
+
+/**
+ * 以缩进形式打印思维树
+ */
+function formatTree(tree: ThoughtNode[]): string {
+  const lines: string[] = [];
+  const visit = (node: ThoughtNode) => {
+    const score = node.visits !== undefined
+      ? ` (N=${node.visits}, Q=${meanValue(node).toFixed(2)})`
+      : node.score !== undefined ? ` (${node.score})` : "";
+    lines.push(`${"  ".repeat(node.depth)}- ${node.id} [${node.status}]${score} ${node.thought.slice(0, 40)}`);
+    tree.filter((n) => n.parentId === node.id).forEach(visit);
+  };
+  tree.filter((n) => n.parentId === undefined).forEach(visit);
+  return lines.join("\n");
+}
+
+/**
+ * 构建工作流图
+ * 关键设计：search 节点每次只扩展一层（bfs）、一个节点（dfs）或完成一次模拟（mcts），通过条件边循环，每一步都写入检查点
+ */
 const workflow = new StateGraph(ToTState)
-  .addNode("propose", proposeNode)
-  .addNode("evaluate", evaluateNode)
+  .addNode("init", initNode)
+  .addNode("search", searchNode)
   .addNode("solve", solveNode)
-  .addEdge("__start__", "propose")
-  .addEdge("propose", "evaluate")
-  .addEdge("evaluate", "solve")
+  .addEdge("__start__", "init")
+  .addEdge("init", "search")
+  .addConditionalEdges("search", routeAfterSearch, { search: "search", solve: "solve" })
   .addEdge("solve", END);
 
-const app = workflow.compile();
+const app = workflow.compile({ checkpointer: getCheckpointer("tot") });
+
+// 导出 app 供服务器使用
+export { app, ToTState, formatTree };
+export type { ThoughtNode, SearchMode };
 
 async function main() {
   const problem = "如何在一周内策划一场吸引 1000 人参与的线上技术讲座？预算只有 500 元。";
-  const result = await app.invoke({ problem });
+  const result = await app.invoke({ problem, searchMode: process.argv[2] }, threadConfig());
+  console.log(`\n====== 思维树（扩展 ${result.expansions} 个节点）======\n` + formatTree(result.tree));
   console.log("\n====== 最终方案 ======\n" + result.finalSolution);
 }
-main().catch(console.error);
+
+// 只在直接运行时执行 main 函数
+if (require.main === module) {
+  main().catch(console.error);
+}